@@ -1,12 +1,34 @@
 
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { GoogleGenAI, Modality, LiveServerMessage, FunctionDeclaration, Type } from '@google/genai';
-import { SessionStatus, LiveConfig, MouseCommand } from './types';
-import { createBlob, decode, decodeAudioData } from './utils/audio-utils';
+import { FunctionDeclaration, Type } from '@google/genai';
+import { SessionStatus, LiveConfig, InputMode, MouseCommand, ExecutionResult, CommandFeedback, AppSettings, Macro, DeviceSelection, AppAction } from './types';
+import { createExecutor, CommandExecutor } from './utils/executor';
+import { MOUSE_ACTION_TOOLS, commandFromToolCall, parseMouseCommands, commandDetail } from './utils/mouse-commands';
+import { loadSettings, saveSettings, instructionFor } from './utils/settings';
+import { FramePipeline } from './utils/frame-pipeline';
+import { screenGeometry, frameToScreen, ScreenGeometry } from './utils/grounding';
+import { ActionPolicy, confirmationFromSpeech } from './utils/action-policy';
+import { MACRO_TOOLS, MacroRecorder, loadMacros, saveMacros, findMacro, upsertMacro } from './utils/macros';
 import Visualizer from './components/Visualizer';
-
-// Use the correct native audio optimized model for Live API
-const MODEL_NAME = 'gemini-2.5-flash-native-audio-preview-12-2025';
+import TranscriptPanel from './components/TranscriptPanel';
+import HistoryPanel from './components/HistoryPanel';
+import SettingsDrawer from './components/SettingsDrawer';
+import TargetOverlay from './components/TargetOverlay';
+import MacroPanel from './components/MacroPanel';
+import { ToolRegistry, ToolResponse, withTimeout } from './utils/tool-registry';
+import { BUILTIN_TOOLS } from './utils/builtin-tools';
+import { registerServiceWorker } from './utils/service-worker';
+import { setupOf } from './utils/handover';
+import { useLiveSession } from './hooks/useLiveSession';
+import { DeviceKind, DeviceLists, EMPTY_DEVICE_LISTS, SELECTION_KEYS, listDevices, availableDeviceId, openCamera, routeOutput, supportsOutputSelection } from './utils/devices';
+import DeviceMenu from './components/DeviceMenu';
+import { SessionRecorder, Recording, supportsRecording } from './utils/recorder';
+import RecordingBar from './components/RecordingBar';
+import MetricsOverlay from './components/MetricsOverlay';
+import CommandPalette, { PaletteEntry } from './components/CommandPalette';
+import { APP_ACTIONS, actionForCombo, ariaKeyShortcut, comboFromEvent, isActivationKey, isTypingTarget } from './utils/hotkeys';
+import { useAnnouncer } from './hooks/useAnnouncer';
+import { localeInfo, messagesFor } from './utils/i18n';
 
 const SET_MOUSE_CONTROL_TOOL: FunctionDeclaration = {
   name: 'set_mouse_control',
@@ -23,209 +45,357 @@ const SET_MOUSE_CONTROL_TOOL: FunctionDeclaration = {
   }
 };
 
-const MOUSE_SYSTEM_INSTRUCTION = `You are an AI-powered Digital System Mouse Controller.
-Your role is to act like the brain of a virtual mouse that controls the OPERATING SYSTEM.
-Reply ONLY in valid JSON format for mouse actions.`;
-
-const NORMAL_SYSTEM_INSTRUCTION = `You are a helpful, friendly assistant. 
-Talk naturally and help the user. Keep responses conversational and brief.`;
+const INPUT_MODES: InputMode[] = ['always-on', 'vad', 'push-to-talk'];
+// How long the target overlay is shown before an absolutely-aimed command runs.
+const TARGET_PREVIEW_MS = 700;
+// Unanswered confirmations are treated as a "no".
+const CONFIRM_TIMEOUT_MS = 10000;
+// Action tools may wait for a spoken confirmation and the target preview before they answer.
+const ACTION_TOOL_TIMEOUT_MS = 30000;
+const MACRO_TOOL_TIMEOUT_MS = 120000;
+// A macro still running at this point is stopped, so the model is never told it failed while steps keep playing.
+// Shorter than the tool timeout to leave room for the step in flight to finish.
+const MACRO_RUN_TIMEOUT_MS = MACRO_TOOL_TIMEOUT_MS - ACTION_TOOL_TIMEOUT_MS;
+// Minimum time each macro step is previewed in the HUD before it runs.
+const MACRO_STEP_PREVIEW_MS = 400;
+
+// Arrow keys, Home and End move between toolbar buttons as the toolbar role promises; Tab still works too.
+// In right-to-left layouts the buttons run the other way, and so do the arrows.
+const moveToolbarFocus = (e: React.KeyboardEvent<HTMLElement>) => {
+  const forward = getComputedStyle(e.currentTarget as HTMLElement).direction === 'rtl' ? -1 : 1;
+  const step = e.key === 'ArrowRight' ? forward : e.key === 'ArrowLeft' ? -forward : 0;
+  if (!step && e.key !== 'Home' && e.key !== 'End') return;
+  const buttons: HTMLButtonElement[] = Array.from((e.currentTarget as HTMLElement).querySelectorAll('button:not(:disabled)'));
+  const index = buttons.indexOf(document.activeElement as HTMLButtonElement);
+  if (index === -1) return;
+  e.preventDefault();
+  const next = e.key === 'Home' ? 0 : e.key === 'End' ? buttons.length - 1 : (index + step + buttons.length) % buttons.length;
+  buttons[next].focus();
+};
 
 const App: React.FC = () => {
-  const [status, setStatus] = useState<SessionStatus>(SessionStatus.IDLE);
-  const [config, setConfig] = useState<LiveConfig>({
-    model: MODEL_NAME,
-    voiceName: 'Zephyr',
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [config, setConfig] = useState<LiveConfig>(() => ({
+    model: settings.model,
+    voiceName: settings.voiceName,
+    languageCode: localeInfo(settings.locale).speechLanguage,
     isCameraEnabled: false,
     isScreenSharing: false,
     isMuted: false,
-    isMouseMode: true,
-    systemInstruction: MOUSE_SYSTEM_INSTRUCTION
-  });
+    isMouseMode: settings.defaultMode === 'mouse',
+    systemInstruction: instructionFor(settings, settings.defaultMode === 'mouse'),
+    inputMode: settings.inputMode,
+    pushToTalkKey: settings.pushToTalkKey,
+    ...settings.devices,
+  }));
   
-  const [isUserTalking, setIsUserTalking] = useState(false);
-  const [isModelTalking, setIsModelTalking] = useState(false);
-  const [lastCommand, setLastCommand] = useState<MouseCommand | null>(null);
+  const [lastCommand, setLastCommand] = useState<CommandFeedback | null>(null);
   const [facingMode, setFacingMode] = useState<'user' | 'environment'>('user');
+  const [isTranscriptOpen, setIsTranscriptOpen] = useState(true);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+  const [isPushToTalkActive, setIsPushToTalkActive] = useState(false);
+  const [macros, setMacros] = useState<Macro[]>(loadMacros);
+  const [isMacrosOpen, setIsMacrosOpen] = useState(false);
+  const [isRecordingMacro, setIsRecordingMacro] = useState(false);
+  const [runningMacroId, setRunningMacroId] = useState<string | null>(null);
+  const [deviceLists, setDeviceLists] = useState<DeviceLists>(EMPTY_DEVICE_LISTS);
+  const [isDeviceMenuOpen, setIsDeviceMenuOpen] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isRecordingMicMissing, setIsRecordingMicMissing] = useState(false);
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isMetricsOpen, setIsMetricsOpen] = useState(false);
+  const { message: announcement, announce } = useAnnouncer();
+  const t = messagesFor(settings.locale);
+
+  const settingsRef = useRef(settings);
+  const isMouseModeRef = useRef(config.isMouseMode);
+  const policyRef = useRef(new ActionPolicy(settings.policy, settings.locale));
+  const pendingConfirmRef = useRef<((approved: boolean) => void) | null>(null);
+  const macrosRef = useRef(macros);
+  const macroRecorderRef = useRef(new MacroRecorder());
+  const macroRunRef = useRef(0);
+  // Updated synchronously on selection so a device swap doesn't wait for the next render.
+  const deviceIdsRef = useRef<DeviceSelection>(settings.devices);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+
+  const session = useLiveSession({
+    devices: () => deviceIdsRef.current,
+    onMicrophone: mic => {
+      const recorder = recorderRef.current;
+      recorder?.setMicrophone(mic);
+      if (recorder?.isRecording && recorder.isMicMissing) setIsRecordingMicMissing(true);
+    },
+  });
+  const { controller, transcript, playbackRef, state: { status, reconnectAttempt, error: errorMessage, needsCredentials } } = session;
+
+  useEffect(() => {
+    controller.updateInput({ muted: config.isMuted });
+    recorderRef.current?.setMicMuted(config.isMuted);
+  }, [controller, config.isMuted]);
 
-  const isMutedRef = useRef(config.isMuted);
+  useEffect(() => {
+    isMouseModeRef.current = config.isMouseMode;
+  }, [config.isMouseMode]);
+
+  useEffect(() => {
+    policyRef.current = new ActionPolicy(settings.policy, settings.locale);
+  }, [settings.policy, settings.locale]);
+
+  useEffect(() => {
+    controller.updateInput({ mode: config.inputMode });
+  }, [controller, config.inputMode]);
+
+  useEffect(() => {
+    settingsRef.current = settings;
+  }, [settings]);
 
   useEffect(() => {
-    isMutedRef.current = config.isMuted;
-  }, [config.isMuted]);
-
-  const sessionRef = useRef<any>(null);
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
-  const audioContextRef = useRef<{ input: AudioContext; output: AudioContext } | null>(null);
-  const audioNodesRef = useRef<{ source?: MediaStreamAudioSourceNode; processor?: ScriptProcessorNode } | null>(null);
-  const nextStartTimeRef = useRef(0);
-  const audioSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+    const { code, dir } = localeInfo(settings.locale);
+    document.documentElement.lang = code;
+    document.documentElement.dir = dir;
+  }, [settings.locale]);
+
   const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const frameIntervalRef = useRef<number | null>(null);
+  const framePipelineRef = useRef<FramePipeline | null>(null);
+  const screenGeometryRef = useRef<ScreenGeometry | null>(null);
   const mediaRequestRef = useRef(0);
+  const executorRef = useRef<CommandExecutor | null>(null);
+  const commandHudTimerRef = useRef<number | null>(null);
 
-  const isJsonLike = (text: string) => {
-    const trimmed = text.trim();
-    return trimmed.startsWith('{') && trimmed.includes('"action"');
-  };
+  useEffect(() => {
+    executorRef.current = createExecutor();
+    return () => executorRef.current?.close();
+  }, []);
+
+  const refreshDevices = useCallback(() => {
+    listDevices().then(setDeviceLists).catch(err => console.warn('Could not list media devices:', err));
+  }, []);
+
+  useEffect(refreshDevices, [refreshDevices]);
+
+  useEffect(() => {
+    registerServiceWorker(apply => setApplyUpdate(() => apply));
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    return () => {
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, []);
+
+  // Applies a config change to the running session, if any. Connect-time fields are handed over to a new
+  // connection by the session itself; everything else (input mode, media, devices) just takes effect.
+  const reconfigure = useCallback((patch: Partial<LiveConfig>) => {
+    setConfig(prev => ({ ...prev, ...patch }));
+    controller.reconfigure(patch);
+  }, [controller]);
 
   const applyMouseMode = useCallback((enabled: boolean) => {
-    const nextInstruction = enabled ? MOUSE_SYSTEM_INSTRUCTION : NORMAL_SYSTEM_INSTRUCTION;
-    setConfig(prev => ({ ...prev, isMouseMode: enabled, systemInstruction: nextInstruction }));
-    if (status === SessionStatus.CONNECTED || status === SessionStatus.CONNECTING) {
-      const wasCameraEnabled = config.isCameraEnabled;
-      const wasScreenSharing = config.isScreenSharing;
-      stopSession();
-      setTimeout(() => startSession(wasCameraEnabled || wasScreenSharing, nextInstruction, enabled), 150);
+    // Action tools check this ref, so they stop at once even if the handover waits for the model's turn.
+    isMouseModeRef.current = enabled;
+    reconfigure({ isMouseMode: enabled, systemInstruction: instructionFor(settingsRef.current, enabled) });
+  }, [reconfigure]);
+
+  const applySettings = useCallback((next: AppSettings) => {
+    saveSettings(next);
+    setSettings(next);
+    settingsRef.current = next;
+    setIsSettingsOpen(false);
+    reconfigure({
+      model: next.model,
+      voiceName: next.voiceName,
+      languageCode: localeInfo(next.locale).speechLanguage,
+      systemInstruction: instructionFor(next, isMouseModeRef.current),
+      inputMode: next.inputMode,
+      pushToTalkKey: next.pushToTalkKey,
+    });
+  }, [reconfigure]);
+
+  // Resolves with the user's answer (voice or Y/N), or false on timeout. A newer request cancels the older one.
+  const requestConfirmation = useCallback(() => new Promise<boolean>(resolve => {
+    pendingConfirmRef.current?.(false);
+    const settle = (approved: boolean) => {
+      clearTimeout(timer);
+      if (pendingConfirmRef.current === settle) pendingConfirmRef.current = null;
+      resolve(approved);
+    };
+    const timer = window.setTimeout(() => settle(false), CONFIRM_TIMEOUT_MS);
+    pendingConfirmRef.current = settle;
+  }), []);
+
+  const executeCommand = useCallback(async (command: MouseCommand, step?: CommandFeedback['step']) => {
+    if (commandHudTimerRef.current) clearTimeout(commandHudTimerRef.current);
+    let result: ExecutionResult;
+    let blocked = true;
+    const reasons = messagesFor(settingsRef.current.locale).policy;
+    const decision = policyRef.current.evaluate(command);
+    if (!isMouseModeRef.current) {
+      result = { ok: false, error: reasons.mouseOff };
+    } else if (decision.verdict === 'deny') {
+      result = { ok: false, error: decision.reason };
+    } else if (command.target && !screenGeometryRef.current) {
+      result = { ok: false, error: reasons.needsScreen };
+      blocked = false;
+    } else {
+      if (command.target) command = { ...command, screenPoint: frameToScreen(command.target, screenGeometryRef.current) };
+      let approved = true;
+      if (decision.verdict === 'confirm') {
+        setLastCommand({ command, state: 'confirm', message: decision.prompt, step });
+        approved = await requestConfirmation();
+      }
+      if (!approved || !isMouseModeRef.current) {
+        result = { ok: false, error: reasons.cancelled };
+      } else {
+        blocked = false;
+        setLastCommand({ command, state: 'pending', step });
+        if (command.target) await new Promise(resolve => setTimeout(resolve, TARGET_PREVIEW_MS));
+        policyRef.current.record(command);
+        result = executorRef.current
+          ? await executorRef.current.execute(command)
+          : { ok: false, error: reasons.noExecutor };
+      }
     }
-  }, [config.isCameraEnabled, config.isScreenSharing, status]);
+    setLastCommand({ command, state: blocked ? 'blocked' : result.ok ? 'success' : 'error', message: result.error, step });
+    if (result.ok) framePipelineRef.current?.boost();
+    if (result.ok && !step) macroRecorderRef.current.record(command);
+    controller.logCommand({ timestamp: Date.now(), command, ok: result.ok, error: result.error });
+    commandHudTimerRef.current = window.setTimeout(() => setLastCommand(null), 3000);
+    return result;
+  }, [controller, requestConfirmation]);
+
+  const updateMacros = useCallback((next: Macro[]) => {
+    saveMacros(next);
+    setMacros(next);
+    macrosRef.current = next;
+  }, []);
+
+  const stopMacro = useCallback(() => {
+    macroRunRef.current++;
+    setRunningMacroId(null);
+  }, []);
+
+  // Replays through executeCommand so policy, confirmation and targeting apply to every step. Stops at the first failure.
+  const runMacro = useCallback(async (macro: Macro): Promise<ExecutionResult> => {
+    const run = ++macroRunRef.current;
+    setRunningMacroId(macro.id);
+    try {
+      for (const [index, { command, delayMs }] of macro.steps.entries()) {
+        const step = { macro: macro.name, index: index + 1, total: macro.steps.length };
+        if (commandHudTimerRef.current) clearTimeout(commandHudTimerRef.current);
+        setLastCommand({ command, state: 'pending', step, message: messagesFor(settingsRef.current.locale).app.upNext });
+        await new Promise(resolve => setTimeout(resolve, Math.max(delayMs, MACRO_STEP_PREVIEW_MS)));
+        if (macroRunRef.current !== run) return { ok: false, error: 'Macro was stopped' };
+        const result = await executeCommand(command, step);
+        if (!result.ok) return { ok: false, error: `Step ${index + 1} failed: ${result.error}` };
+      }
+      return { ok: true };
+    } finally {
+      if (macroRunRef.current === run) setRunningMacroId(null);
+    }
+  }, [executeCommand]);
+
+  const handleMacroTool = useCallback(async (name: string, args: Record<string, unknown>): Promise<ToolResponse> => {
+    const recorder = macroRecorderRef.current;
+    const macroName = typeof args?.name === 'string' ? args.name.trim() : '';
+    switch (name) {
+      case 'start_macro_recording':
+        recorder.start();
+        setIsRecordingMacro(true);
+        return { status: 'success', message: 'Recording started' };
+      case 'stop_macro_recording': {
+        if (!recorder.isRecording) return { status: 'error', error: 'No recording is in progress' };
+        if (!macroName) return { status: 'error', error: 'A name is required to save the macro' };
+        const macro = recorder.stop(macroName);
+        setIsRecordingMacro(false);
+        if (!macro) return { status: 'error', error: 'No commands were recorded' };
+        updateMacros(upsertMacro(macrosRef.current, macro));
+        return { status: 'success', message: `Saved "${macro.name}" with ${macro.steps.length} steps` };
+      }
+      case 'run_macro': {
+        const macro = findMacro(macrosRef.current, macroName);
+        if (!macro) {
+          return { status: 'error', error: `No macro named "${macroName}"`, macros: macrosRef.current.map(m => m.name) };
+        }
+        let result: ExecutionResult;
+        try {
+          result = await withTimeout(runMacro(macro), MACRO_RUN_TIMEOUT_MS, `Macro "${macro.name}"`);
+        } catch (err) {
+          stopMacro();
+          return { status: 'error', error: `${(err as Error).message} and was stopped` };
+        }
+        return result.ok ? { status: 'success', message: `Ran "${macro.name}"` } : { status: 'error', error: result.error };
+      }
+      case 'list_macros':
+        return { status: 'success', macros: macrosRef.current.map(m => m.name) };
+      default:
+        return { status: 'error', error: `Unknown macro tool "${name}"` };
+    }
+  }, [runMacro, stopMacro, updateMacros]);
 
   const toggleMouseMode = useCallback(() => {
     applyMouseMode(!config.isMouseMode);
   }, [config.isMouseMode, applyMouseMode]);
 
-  const stopSession = useCallback(() => {
-    if (sessionRef.current) {
-      sessionRef.current.close?.();
-      sessionRef.current = null;
-    }
-    sessionPromiseRef.current = null;
-    if (audioNodesRef.current?.processor) audioNodesRef.current.processor.disconnect();
-    if (audioNodesRef.current?.source) audioNodesRef.current.source.disconnect();
-    audioSourcesRef.current.forEach(s => { try { s.stop(); } catch(e) {} });
-    audioSourcesRef.current.clear();
-    
-    if (videoRef.current?.srcObject) {
-      (videoRef.current.srcObject as MediaStream).getTracks().forEach(track => track.stop());
-      videoRef.current.srcObject = null;
-    }
-    
-    if (frameIntervalRef.current) {
-      clearInterval(frameIntervalRef.current);
-      frameIntervalRef.current = null;
-    }
-    
-    setStatus(SessionStatus.IDLE);
-    setIsUserTalking(false);
-    setIsModelTalking(false);
-    setConfig(prev => ({ ...prev, isCameraEnabled: false, isScreenSharing: false }));
+  const finishRecording = useCallback(async () => {
+    const recorder = recorderRef.current;
+    if (!recorder?.isRecording) return;
+    setIsRecording(false);
+    const result = await recorder.stop();
+    if (result) setRecording(result);
   }, []);
 
-  const startSession = async (withVisual = false, instructionOverride?: string, isMouseModeOverride?: boolean) => {
-    try {
-      if (!navigator.mediaDevices?.getUserMedia) return;
-      setStatus(SessionStatus.CONNECTING);
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      if (!audioContextRef.current) {
-        audioContextRef.current = {
-          input: new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 }),
-          output: new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 }),
-        };
-      }
-      const { input: inputCtx, output: outputCtx } = audioContextRef.current;
-      await inputCtx.resume();
-      await outputCtx.resume();
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const sessionIsMouseMode = isMouseModeOverride !== undefined ? isMouseModeOverride : config.isMouseMode;
-      const sessionInstruction = instructionOverride || config.systemInstruction;
-
-      const sessionPromise = ai.live.connect({
-        model: MODEL_NAME,
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: config.voiceName } } },
-          systemInstruction: sessionInstruction,
-          tools: [{ functionDeclarations: [SET_MOUSE_CONTROL_TOOL] }],
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
+  const stopSession = useCallback(() => controller.stop(), [controller]);
+
+  // Handlers close over the latest render; a new registry is built for every session.
+  const buildToolRegistry = () =>
+    new ToolRegistry([
+      ...BUILTIN_TOOLS,
+      {
+        declaration: SET_MOUSE_CONTROL_TOOL,
+        handler: async ({ enabled }: { enabled: boolean }) => {
+          // The handover waits for the model to finish this turn, so the response still reaches this connection.
+          applyMouseMode(!!enabled);
+          return { status: 'success', message: `Mouse mode ${enabled ? 'activated' : 'deactivated'}` };
         },
-        callbacks: {
-          onopen: () => {
-            setStatus(SessionStatus.CONNECTED);
-            const source = inputCtx.createMediaStreamSource(stream);
-            const scriptProcessor = inputCtx.createScriptProcessor(4096, 1, 1);
-            scriptProcessor.onaudioprocess = (e) => {
-              if (isMutedRef.current) { setIsUserTalking(false); return; }
-              const inputData = e.inputBuffer.getChannelData(0);
-              const sum = inputData.reduce((a, b) => a + Math.abs(b), 0);
-              setIsUserTalking(sum / inputData.length > 0.01);
-              sessionPromise.then(s => s.sendRealtimeInput({ media: createBlob(inputData) })).catch(() => {});
-            };
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputCtx.destination);
-            audioNodesRef.current = { source, processor: scriptProcessor };
-            if (withVisual) {
-               if (config.isScreenSharing) toggleScreenShare(true);
-               else toggleCamera(true);
-            }
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            if (message.toolCall) {
-              for (const fc of message.toolCall.functionCalls) {
-                if (fc.name === 'set_mouse_control') {
-                  const { enabled } = fc.args as { enabled: boolean };
-                  sessionPromise.then(session => {
-                    session.sendToolResponse({
-                      functionResponses: {
-                        id: fc.id,
-                        name: fc.name,
-                        response: { status: 'success', message: `Mouse mode ${enabled ? 'activated' : 'deactivated'}` }
-                      }
-                    });
-                  });
-                  applyMouseMode(enabled);
-                  return;
-                }
-              }
-            }
-            
-            if (sessionIsMouseMode && message.serverContent?.modelTurn?.parts) {
-              const textPart = message.serverContent.modelTurn.parts.find(p => p.text);
-              if (textPart && textPart.text && isJsonLike(textPart.text)) {
-                try {
-                  const jsonMatch = textPart.text.match(/\{[\s\S]*\}/);
-                  if (jsonMatch) {
-                    const cmd = JSON.parse(jsonMatch[0]) as MouseCommand;
-                    if (cmd.action && cmd.action !== 'none') {
-                      setLastCommand(cmd);
-                      setTimeout(() => setLastCommand(null), 3000);
-                    }
-                  }
-                } catch(e) {}
-              }
-            }
-
-            const audioData = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (audioData) {
-              setIsModelTalking(true);
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputCtx.currentTime);
-              const audioBuffer = await decodeAudioData(decode(audioData), outputCtx, 24000, 1);
-              const source = outputCtx.createBufferSource();
-              source.buffer = audioBuffer;
-              source.connect(outputCtx.destination);
-              source.onended = () => {
-                audioSourcesRef.current.delete(source);
-                if (audioSourcesRef.current.size === 0) setIsModelTalking(false);
-              };
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += audioBuffer.duration;
-              audioSourcesRef.current.add(source);
-            }
-            if (message.serverContent?.interrupted) {
-              audioSourcesRef.current.forEach(s => { try { s.stop(); } catch(e) {} });
-              audioSourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-              setIsModelTalking(false);
-            }
-          },
-          onerror: () => stopSession(),
-          onclose: () => stopSession(),
+      },
+      ...MACRO_TOOLS.map(declaration => ({
+        declaration,
+        mouseModeOnly: true,
+        exclusive: true,
+        timeoutMs: MACRO_TOOL_TIMEOUT_MS,
+        handler: (args: Record<string, unknown>) => handleMacroTool(declaration.name, args),
+      })),
+      ...MOUSE_ACTION_TOOLS.map(declaration => ({
+        declaration,
+        mouseModeOnly: true,
+        exclusive: true,
+        timeoutMs: ACTION_TOOL_TIMEOUT_MS,
+        handler: async (args: Record<string, unknown>): Promise<ToolResponse> => {
+          const parsed = commandFromToolCall(declaration.name, args);
+          controller.metrics.recordCommands(parsed.ok ? 1 : 0, parsed.ok ? 0 : 1);
+          const result = parsed.ok ? await executeCommand(parsed.command) : { ok: false, error: parsed.error };
+          return result.ok ? { status: 'success' } : { status: 'error', error: result.error };
         },
-      });
-      sessionPromiseRef.current = sessionPromise;
-      sessionRef.current = await sessionPromise;
-    } catch (err) { setStatus(SessionStatus.IDLE); }
-  };
+      })),
+    ]);
+
+  const startSession = () => session.start(setupOf(config), buildToolRegistry());
+
+  const stopMediaTracks = useCallback(() => {
+    if (videoRef.current?.srcObject) {
+      const oldStream = videoRef.current.srcObject as MediaStream;
+      oldStream.getTracks().forEach(t => t.stop());
+      videoRef.current.srcObject = null;
+    }
+    framePipelineRef.current?.stop();
+    framePipelineRef.current = null;
+    screenGeometryRef.current = null;
+  }, []);
 
   const startMediaStreaming = useCallback((stream: MediaStream) => {
     if (videoRef.current) {
@@ -233,44 +403,77 @@ const App: React.FC = () => {
       videoRef.current.play();
     }
 
-    if (frameIntervalRef.current) clearInterval(frameIntervalRef.current);
-    
-    const ctx = canvasRef.current?.getContext('2d');
-    frameIntervalRef.current = window.setInterval(() => {
-      if (!videoRef.current || !canvasRef.current || status !== SessionStatus.CONNECTED) return;
-      canvasRef.current.width = 640; 
-      canvasRef.current.height = 480;
-      ctx?.drawImage(videoRef.current, 0, 0, 640, 480);
-      canvasRef.current.toBlob(blob => {
-        if (blob && sessionPromiseRef.current) {
-          const reader = new FileReader();
-          reader.onloadend = () => {
-            const base64Data = (reader.result as string).split(',')[1];
-            sessionPromiseRef.current?.then(session => session.sendRealtimeInput({ media: { data: base64Data, mimeType: 'image/jpeg' } }));
-          };
-          reader.readAsDataURL(blob);
-        }
-      }, 'image/jpeg', 0.5);
-    }, 1000);
+    framePipelineRef.current?.stop();
+    if (videoRef.current) {
+      framePipelineRef.current = new FramePipeline(
+        videoRef.current,
+        settingsRef.current.media,
+        frame => controller.sendMedia({ data: frame.data, mimeType: 'image/jpeg' }),
+        () => controller.isOpen,
+      );
+    }
 
     // Track ending
     stream.getVideoTracks()[0].onended = () => {
        stopMediaTracks();
        setConfig(prev => ({ ...prev, isCameraEnabled: false, isScreenSharing: false }));
     };
-  }, [status]);
+  }, [controller, stopMediaTracks]);
 
-  const stopMediaTracks = useCallback(() => {
-    if (videoRef.current?.srcObject) {
-      const oldStream = videoRef.current.srcObject as MediaStream;
-      oldStream.getTracks().forEach(t => t.stop());
-      videoRef.current.srcObject = null;
-    }
-    if (frameIntervalRef.current) {
-      clearInterval(frameIntervalRef.current);
-      frameIntervalRef.current = null;
-    }
-  }, []);
+  useEffect(() => {
+    // Model transcription arrives with its audio, ahead of when that audio is heard.
+    const heardDelay = () => playbackRef.current?.position.bufferedMs ?? 0;
+    const unsubscribe = [
+      controller.on('modelText', (text, setup) => {
+        if (!setup.isMouseMode || !text.includes('{')) return;
+        const { commands, errors } = parseMouseCommands(text);
+        controller.metrics.recordCommands(commands.length, errors.length);
+        commands.filter(cmd => cmd.action !== 'none').forEach(cmd => executeCommand(cmd));
+        if (errors.length) console.warn('Rejected mouse command output:', errors);
+      }),
+      controller.on('transcription', (role, text) => {
+        recorderRef.current?.caption(role, text, role === 'model' ? heardDelay() : 0);
+        if (role === 'user' && pendingConfirmRef.current) {
+          const answer = confirmationFromSpeech(text, settingsRef.current.locale);
+          if (answer !== null) pendingConfirmRef.current(answer);
+        }
+      }),
+      controller.on('turnComplete', () => recorderRef.current?.endCaption(heardDelay())),
+      controller.on('end', () => {
+        finishRecording();
+        stopMediaTracks();
+        setConfig(prev => ({ ...prev, isCameraEnabled: false, isScreenSharing: false }));
+      }),
+    ];
+    return () => unsubscribe.forEach(off => off());
+  }, [controller, executeCommand, finishRecording, stopMediaTracks]);
+
+  // Screen reader announcements for changes that are otherwise only shown by color or animation.
+  const announcedStatusRef = useRef(status);
+  useEffect(() => {
+    const previous = announcedStatusRef.current;
+    announcedStatusRef.current = status;
+    if (status === previous) return;
+    if (status === SessionStatus.CONNECTING) announce(t.announce.connecting);
+    else if (status === SessionStatus.CONNECTED) announce(previous === SessionStatus.RECONNECTING ? t.announce.reconnected : t.announce.connected);
+    else if (status === SessionStatus.RECONNECTING) announce(t.announce.reconnecting(reconnectAttempt));
+    else if (status === SessionStatus.ERROR) announce(t.announce.error(errorMessage ?? t.statuses[SessionStatus.ERROR]));
+    else announce(t.announce.ended);
+  }, [status, reconnectAttempt, errorMessage, announce, t]);
+
+  const announcedMuteRef = useRef(config.isMuted);
+  useEffect(() => {
+    if (config.isMuted === announcedMuteRef.current) return;
+    announcedMuteRef.current = config.isMuted;
+    announce(config.isMuted ? t.announce.muted : t.announce.unmuted);
+  }, [config.isMuted, announce, t]);
+
+  useEffect(() => {
+    if (!lastCommand || lastCommand.state === 'pending') return;
+    const detail = commandDetail(lastCommand.command);
+    const parts = [`${t.hudStates[lastCommand.state]}: ${t.commandActions[lastCommand.command.action]}`, detail, lastCommand.command.target?.label, lastCommand.message];
+    announce(parts.filter(Boolean).join('. '));
+  }, [lastCommand, announce, t]);
 
   const toggleCamera = useCallback(async (forceEnable = false, specificMode?: 'user' | 'environment') => {
     const sequence = ++mediaRequestRef.current;
@@ -281,17 +484,18 @@ const App: React.FC = () => {
 
     if (shouldEnable) {
       try {
-        const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: mode } });
+        const stream = await openCamera(deviceIdsRef.current.videoInputId, mode);
         if (sequence !== mediaRequestRef.current) { stream.getTracks().forEach(t => t.stop()); return; }
         startMediaStreaming(stream);
         setConfig(prev => ({ ...prev, isCameraEnabled: true, isScreenSharing: false }));
+        refreshDevices();
       } catch (err) { 
         setConfig(prev => ({ ...prev, isCameraEnabled: false })); 
       }
     } else { 
       setConfig(prev => ({ ...prev, isCameraEnabled: false })); 
     }
-  }, [config.isCameraEnabled, status, facingMode, stopMediaTracks, startMediaStreaming]);
+  }, [config.isCameraEnabled, facingMode, stopMediaTracks, startMediaStreaming, refreshDevices]);
 
   const toggleScreenShare = useCallback(async (forceEnable = false) => {
     const sequence = ++mediaRequestRef.current;
@@ -304,6 +508,7 @@ const App: React.FC = () => {
         const stream = await (navigator.mediaDevices as any).getDisplayMedia({ video: true });
         if (sequence !== mediaRequestRef.current) { stream.getTracks().forEach((t: any) => t.stop()); return; }
         startMediaStreaming(stream);
+        screenGeometryRef.current = screenGeometry(stream);
         setConfig(prev => ({ ...prev, isScreenSharing: true, isCameraEnabled: false }));
       } catch (err) {
         setConfig(prev => ({ ...prev, isScreenSharing: false }));
@@ -311,7 +516,7 @@ const App: React.FC = () => {
     } else {
       setConfig(prev => ({ ...prev, isScreenSharing: false }));
     }
-  }, [config.isScreenSharing, status, stopMediaTracks, startMediaStreaming]);
+  }, [config.isScreenSharing, stopMediaTracks, startMediaStreaming]);
 
   const flipCamera = useCallback(() => {
     const nextMode = facingMode === 'user' ? 'environment' : 'user';
@@ -319,81 +524,363 @@ const App: React.FC = () => {
     if (config.isCameraEnabled) toggleCamera(true, nextMode);
   }, [facingMode, config.isCameraEnabled, toggleCamera]);
 
+  const isSessionConnected = status === SessionStatus.CONNECTED || status === SessionStatus.RECONNECTING;
+  // Connecting counts as active so a second press of the toggle cancels rather than starting another session.
+  const isSessionActive = isSessionConnected || status === SessionStatus.CONNECTING;
+
+  // Recording taps the running audio graph, so it can only start once a session has set it up.
+  const toggleRecording = useCallback(() => {
+    if (recorderRef.current?.isRecording) {
+      finishRecording();
+      return;
+    }
+    if (!session.audioContextRef.current || !session.analysersRef.current) return;
+    recorderRef.current = new SessionRecorder(session.audioContextRef.current.output, session.analysersRef.current.output);
+    recorderRef.current.start({
+      mic: session.micStreamRef.current,
+      isMicMuted: config.isMuted,
+      video: config.isCameraEnabled || config.isScreenSharing ? videoRef.current : null,
+    });
+    setRecording(null);
+    setIsRecording(true);
+    setIsRecordingMicMissing(recorderRef.current.isMicMissing);
+  }, [config.isMuted, config.isCameraEnabled, config.isScreenSharing, finishRecording]);
+
+  // Device changes apply in place: the Live session keeps running and only the affected stream is replaced.
+  const applyDevice = useCallback((kind: DeviceKind, deviceId: string) => {
+    const key = SELECTION_KEYS[kind];
+    deviceIdsRef.current = { ...deviceIdsRef.current, [key]: deviceId };
+    setConfig(prev => ({ ...prev, [key]: deviceId }));
+
+    if (kind === 'audioinput') {
+      session.swapMicrophone(deviceId).catch(err => console.warn('Could not switch microphone:', err));
+    } else if (kind === 'videoinput') {
+      if (config.isCameraEnabled) toggleCamera(true);
+    } else if (session.audioContextRef.current) {
+      routeOutput(session.audioContextRef.current.output, deviceId).catch(err => console.warn('Could not select the speaker:', err));
+    }
+  }, [config.isCameraEnabled, toggleCamera]);
+
+  const selectDevice = useCallback((kind: DeviceKind, deviceId: string) => {
+    const next = { ...settingsRef.current, devices: { ...settingsRef.current.devices, [SELECTION_KEYS[kind]]: deviceId } };
+    saveSettings(next);
+    setSettings(next);
+    settingsRef.current = next;
+    applyDevice(kind, deviceId);
+  }, [applyDevice]);
+
+  // An unplugged device falls back to the default until it is plugged back in; the saved choice is kept.
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices?.addEventListener) return;
+    const handleDeviceChange = async () => {
+      const lists = await listDevices();
+      setDeviceLists(lists);
+      (Object.keys(SELECTION_KEYS) as DeviceKind[]).forEach(kind => {
+        // Nothing listed usually means no permission yet rather than no devices.
+        if (!lists[kind].length) return;
+        const key = SELECTION_KEYS[kind];
+        const deviceId = availableDeviceId(lists, kind, settingsRef.current.devices[key]);
+        if (deviceId !== deviceIdsRef.current[key]) applyDevice(kind, deviceId);
+      });
+    };
+    mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+  }, [applyDevice]);
+
+  const cycleInputMode = useCallback(() => {
+    const inputMode = INPUT_MODES[(INPUT_MODES.indexOf(config.inputMode) + 1) % INPUT_MODES.length];
+    const next = { ...settingsRef.current, inputMode };
+    saveSettings(next);
+    setSettings(next);
+    setConfig(prev => ({ ...prev, inputMode }));
+    announce(t.announce.inputMode(t.inputModes[inputMode]));
+  }, [config.inputMode, announce, t]);
+
+  const toggleMute = useCallback(() => setConfig(prev => ({ ...prev, isMuted: !prev.isMuted })), []);
+
+  const toggleDeviceMenu = useCallback(() => {
+    setIsDeviceMenuOpen(prev => !prev);
+    refreshDevices();
+  }, [refreshDevices]);
+
+  // Macros and history share the left edge, so opening one closes the other.
+  const toggleMacros = useCallback(() => { setIsMacrosOpen(prev => !prev); setIsHistoryOpen(false); }, []);
+  const toggleHistory = useCallback(() => { setIsHistoryOpen(prev => !prev); setIsMacrosOpen(false); }, []);
+
+  const canRecord = supportsRecording() && (isSessionConnected || isRecording);
+
+  // The single entry point for the toolbar, hotkeys and the command palette.
+  const runAction = (action: AppAction) => {
+    switch (action) {
+      case 'toggle-session': return isSessionActive ? stopSession() : isOnline && startSession();
+      case 'end-session': return isSessionActive && stopSession();
+      case 'toggle-mute': return toggleMute();
+      case 'cycle-input-mode': return cycleInputMode();
+      case 'toggle-camera': return toggleCamera();
+      case 'flip-camera': return config.isCameraEnabled && flipCamera();
+      case 'toggle-screen-share': return toggleScreenShare();
+      case 'toggle-recording': return canRecord && toggleRecording();
+      case 'toggle-mouse-mode': return toggleMouseMode();
+      case 'toggle-devices': return toggleDeviceMenu();
+      case 'toggle-transcript': return setIsTranscriptOpen(prev => !prev);
+      case 'toggle-macros': return toggleMacros();
+      case 'toggle-history': return toggleHistory();
+      case 'toggle-settings': return setIsSettingsOpen(prev => !prev);
+      case 'toggle-metrics': return setIsMetricsOpen(prev => !prev);
+      case 'command-palette': return setIsPaletteOpen(prev => !prev);
+    }
+  };
+  const runActionRef = useRef(runAction);
+  runActionRef.current = runAction;
+
+  const paletteEntries: PaletteEntry[] = APP_ACTIONS.filter(action => action !== 'command-palette').map(action => ({
+    action,
+    label: t.actions[action],
+    hotkey: settings.hotkeys[action],
+    disabled:
+      (action === 'toggle-session' && !isSessionActive && !isOnline) ||
+      (action === 'end-session' && !isSessionActive) ||
+      (action === 'flip-camera' && !config.isCameraEnabled) ||
+      (action === 'toggle-recording' && !canRecord),
+  }));
+  const shortcut = (action: AppAction) => ariaKeyShortcut(settings.hotkeys[action]) || undefined;
+
   useEffect(() => {
+    const setPushToTalk = (active: boolean) => {
+      controller.updateInput({ pushToTalk: active });
+      setIsPushToTalkActive(active);
+    };
     const handleKeyDown = (e: KeyboardEvent) => {
-      const key = e.key.toLowerCase();
-      if (key === 'enter') status === SessionStatus.CONNECTED ? stopSession() : startSession();
-      else if (key === 'm') setConfig(prev => ({ ...prev, isMuted: !prev.isMuted }));
-      else if (key === 'escape' && status === SessionStatus.CONNECTED) stopSession();
+      // Kill switch: works from anywhere, including text fields.
+      if (e.ctrlKey && e.shiftKey && e.code === 'KeyX') {
+        e.preventDefault();
+        pendingConfirmRef.current?.(false);
+        stopMacro();
+        isMouseModeRef.current = false;
+        applyMouseMode(false);
+        return;
+      }
+      const combo = comboFromEvent(e);
+      if (!combo || isTypingTarget(e.target)) return;
+      if (pendingConfirmRef.current && (e.key === 'y' || e.key === 'n')) {
+        pendingConfirmRef.current(e.key === 'y');
+        return;
+      }
+      if (config.inputMode === 'push-to-talk' && e.code === config.pushToTalkKey) {
+        e.preventDefault();
+        if (!e.repeat) setPushToTalk(true);
+        return;
+      }
+      const action = actionForCombo(settingsRef.current.hotkeys, combo);
+      if (!action || e.repeat || isActivationKey(e.target, combo)) return;
+      e.preventDefault();
+      runActionRef.current(action);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === config.pushToTalkKey) setPushToTalk(false);
     };
+    const release = () => setPushToTalk(false);
     window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [status, stopSession]);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', release);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', release);
+    };
+  }, [controller, applyMouseMode, stopMacro, config.inputMode, config.pushToTalkKey]);
 
   return (
     <div className="flex flex-col items-center justify-center h-full w-full bg-[#f8fafc]">
-      {/* Command Preview HUD */}
-      <div className={`fixed top-10 left-1/2 -translate-x-1/2 z-50 transition-all duration-500 transform ${lastCommand ? 'opacity-100 translate-y-0 scale-100' : 'opacity-0 -translate-y-10 scale-95 pointer-events-none'}`}>
+      <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">{announcement}</div>
+      <CommandPalette isOpen={isPaletteOpen} messages={t} entries={paletteEntries} onRun={runAction} onClose={() => setIsPaletteOpen(false)} />
+
+      {/* Command Preview HUD (announced through the live region above) */}
+      <div aria-hidden="true" className={`fixed top-10 left-1/2 -translate-x-1/2 z-50 transition-all duration-500 transform ${lastCommand ? 'opacity-100 translate-y-0 scale-100' : 'opacity-0 -translate-y-10 scale-95 pointer-events-none'}`}>
         <div className="bg-[#1a1d23] border border-white/10 rounded-2xl px-6 py-4 shadow-2xl flex items-center gap-4">
-          <div className="w-10 h-10 bg-green-500/20 rounded-full flex items-center justify-center text-green-400">
-             <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 13l4 4L19 7"></path></svg>
+          {lastCommand?.state === 'error' ? (
+            <div className="w-10 h-10 bg-red-500/20 rounded-full flex items-center justify-center text-red-400">
+               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+            </div>
+          ) : lastCommand?.state === 'confirm' || lastCommand?.state === 'blocked' ? (
+            <div className={`w-10 h-10 bg-amber-500/20 rounded-full flex items-center justify-center text-amber-400 ${lastCommand.state === 'confirm' ? 'animate-pulse' : ''}`}>
+               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v4m0 4h.01M10.29 3.86L1.82 18a2 2 0 001.71 3h16.94a2 2 0 001.71-3L13.71 3.86a2 2 0 00-3.42 0z"></path></svg>
+            </div>
+          ) : (
+            <div className={`w-10 h-10 bg-green-500/20 rounded-full flex items-center justify-center text-green-400 ${lastCommand?.state === 'pending' ? 'animate-pulse' : ''}`}>
+               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 13l4 4L19 7"></path></svg>
+            </div>
+          )}
+          <div className="flex flex-col">
+            <div className="text-white font-medium uppercase tracking-wider text-xs">
+              {t.hudStates[lastCommand?.state ?? 'success']}: {t.commandActions[lastCommand?.command.action ?? 'none']}
+              {lastCommand && commandDetail(lastCommand.command) && <span className="text-amber-200 normal-case tracking-normal"> · {commandDetail(lastCommand.command)}</span>}
+              {lastCommand?.command.target?.label && <span className="text-cyan-300 normal-case tracking-normal"> · {lastCommand.command.target.label}</span>}
+            </div>
+            {lastCommand?.step && <div className="text-blue-300 text-[10px] mt-1">{t.app.macroStep(lastCommand.step.macro, lastCommand.step.index, lastCommand.step.total)}</div>}
+            {lastCommand?.message && <div className={`${lastCommand.state === 'confirm' || lastCommand.state === 'pending' ? 'text-amber-300' : 'text-red-300'} text-[10px] mt-1`}>{lastCommand.message}</div>}
           </div>
-          <div className="text-white font-medium uppercase tracking-wider text-xs">Executed: {lastCommand?.action}</div>
         </div>
       </div>
 
       {/* Media Preview (Camera or Screen) */}
-      <div className={`fixed top-10 right-10 w-64 h-48 bg-[#1a1d23] rounded-[32px] overflow-hidden shadow-2xl border border-white/5 transition-all duration-500 ${(config.isCameraEnabled || config.isScreenSharing) ? 'opacity-100 scale-100' : 'opacity-0 scale-90 pointer-events-none'}`}>
-        <video ref={videoRef} autoPlay playsInline muted className={`w-full h-full object-cover ${(facingMode === 'user' && config.isCameraEnabled) ? 'scale-x-[-1]' : ''}`} />
+      <div aria-hidden="true" className={`fixed top-10 end-10 w-64 h-48 bg-[#1a1d23] rounded-[32px] overflow-hidden shadow-2xl border border-white/5 transition-all duration-500 ${(config.isCameraEnabled || config.isScreenSharing) ? 'opacity-100 scale-100' : 'opacity-0 scale-90 pointer-events-none'}`}>
+        <video ref={videoRef} autoPlay playsInline muted className={`w-full h-full ${config.isScreenSharing ? 'object-contain' : 'object-cover'} ${(facingMode === 'user' && config.isCameraEnabled) ? 'scale-x-[-1]' : ''}`} />
+        {config.isScreenSharing && <TargetOverlay target={lastCommand?.command.target ?? null} videoRef={videoRef} isPending={lastCommand?.state === 'pending'} />}
       </div>
-      <canvas ref={canvasRef} className="hidden" />
+
+      {applyUpdate && (
+        <div role="alert" className="fixed top-6 start-6 z-50 bg-[#1a1d23] text-white border border-white/10 rounded-2xl px-4 py-3 shadow-2xl flex items-center gap-3 text-xs">
+          <span>{t.app.updateAvailable}</span>
+          <button onClick={applyUpdate} disabled={isSessionActive} title={isSessionActive ? t.app.endSessionFirst : undefined} className="text-[10px] uppercase tracking-wider px-3 py-1 rounded-lg bg-blue-500/30 text-blue-200 hover:bg-blue-500/40 disabled:opacity-30">{t.app.reload}</button>
+          <button onClick={() => setApplyUpdate(null)} className="text-[10px] uppercase tracking-wider px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10">{t.app.later}</button>
+        </div>
+      )}
+
+      <TranscriptPanel entries={transcript} isOpen={isTranscriptOpen && transcript.length > 0} locale={settings.locale} messages={t} />
+      <HistoryPanel isOpen={isHistoryOpen} locale={settings.locale} messages={t} onClose={() => setIsHistoryOpen(false)} />
+      <MacroPanel
+        isOpen={isMacrosOpen}
+        messages={t}
+        macros={macros}
+        isRecording={isRecordingMacro}
+        runningId={runningMacroId}
+        onRun={runMacro}
+        onStopRun={stopMacro}
+        onDiscardRecording={() => { macroRecorderRef.current.cancel(); setIsRecordingMacro(false); }}
+        onChange={updateMacros}
+        onClose={() => setIsMacrosOpen(false)}
+      />
+      <MetricsOverlay isOpen={isMetricsOpen} metrics={controller.metrics} messages={t} onClose={() => setIsMetricsOpen(false)} />
+      <SettingsDrawer isOpen={isSettingsOpen} messages={t} settings={settings} isSessionActive={isSessionActive} onSave={applySettings} onClose={() => setIsSettingsOpen(false)} />
 
       {/* Main Container */}
       <div className="relative flex flex-col items-center gap-4">
         {/* Floating MIC OFF Badge */}
-        <div className={`transition-all duration-500 transform ${config.isMuted && status === SessionStatus.CONNECTED ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4 pointer-events-none'}`}>
-          <div className="bg-red-500 text-white px-4 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest shadow-lg animate-pulse">Mic Muted</div>
+        <div aria-hidden="true" className={`transition-all duration-500 transform ${config.isMuted && status === SessionStatus.CONNECTED ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4 pointer-events-none'}`}>
+          <div className="bg-red-500 text-white px-4 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest shadow-lg animate-pulse">{t.app.micMuted}</div>
         </div>
 
-        <div className="toolbar-container rounded-[40px] flex items-center px-8 py-4 transition-all duration-500 ease-in-out border border-white/10 overflow-hidden">
+        {/* Push-to-Talk Hint */}
+        {config.inputMode === 'push-to-talk' && isSessionActive && !config.isMuted && (
+          <div className={`px-4 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest shadow-lg transition-colors ${isPushToTalkActive ? 'bg-green-500 text-white' : 'bg-[#1a1d23] text-gray-400'}`}>
+            {isPushToTalkActive ? t.app.listening : t.app.holdToTalk(config.pushToTalkKey.replace(/^Key/, ''))}
+          </div>
+        )}
+
+        {isRecording && (
+          <div className="bg-red-500 text-white px-4 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest shadow-lg animate-pulse">{t.app.recordingSession}</div>
+        )}
+        {isRecording && isRecordingMicMissing && (
+          <div role="alert" className="bg-[#1a1d23] text-amber-300 px-4 py-1 rounded-full text-[10px] shadow-lg">{t.recording.micMissing}</div>
+        )}
+        <RecordingBar recording={recording} messages={t} onDiscard={() => setRecording(null)} />
+
+        {isRecordingMacro && (
+          <div className="bg-red-500 text-white px-4 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest shadow-lg animate-pulse">{t.app.recordingMacro}</div>
+        )}
+
+        {/* Connection State Badge */}
+        {!isOnline && (
+          <div className="bg-[#1a1d23] text-gray-300 px-4 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest shadow-lg">{t.app.offlineBadge}</div>
+        )}
+        {status === SessionStatus.RECONNECTING && (
+          <div className="bg-amber-500 text-white px-4 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest shadow-lg animate-pulse">{t.app.reconnecting(reconnectAttempt)}</div>
+        )}
+        {status === SessionStatus.ERROR && errorMessage && (
+          <div role="alert" className="bg-[#1a1d23] border border-red-500/40 text-red-300 px-4 py-2 rounded-2xl text-xs shadow-lg max-w-md text-center">
+            {errorMessage}
+            {needsCredentials && (
+              <button onClick={() => setIsSettingsOpen(true)} className="block mx-auto mt-2 text-[10px] uppercase tracking-wider px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-white">{t.app.enterApiKey}</button>
+            )}
+          </div>
+        )}
+
+        <DeviceMenu
+          isOpen={isDeviceMenuOpen}
+          messages={t}
+          devices={deviceLists}
+          selection={config}
+          canSelectOutput={supportsOutputSelection()}
+          onSelect={selectDevice}
+          onClose={() => setIsDeviceMenuOpen(false)}
+        />
+
+        <div role="toolbar" aria-label={t.toolbar.label} onKeyDown={moveToolbarFocus} className="toolbar-container rounded-[40px] flex items-center px-8 py-4 transition-all duration-500 ease-in-out border border-white/10 overflow-hidden">
           {/* Status Globe */}
-          <div className={`transition-all duration-500 ${status === SessionStatus.CONNECTED ? (config.isMuted ? 'text-red-500' : 'glow-green') : 'text-gray-600'}`}>
+          <div role="img" aria-label={t.toolbar.status(t.statuses[status])} title={status === SessionStatus.ERROR ? errorMessage ?? undefined : undefined} className={`transition-all duration-500 ${status === SessionStatus.CONNECTED ? (config.isMuted ? 'text-red-500' : 'glow-green') : status === SessionStatus.RECONNECTING ? 'text-amber-400 animate-pulse' : status === SessionStatus.ERROR ? 'text-red-500' : 'text-gray-600'}`}>
              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><circle cx="12" cy="12" r="10" strokeWidth="1.5"></circle><path strokeWidth="1.2" d="M2 12h20M12 2a15.3 15.3 0 010 20"></path></svg>
           </div>
           
           <div className="separator"></div>
           
           {/* Visualizer */}
-          <div className="flex items-center justify-center w-[120px]">
-            <Visualizer isActive={status === SessionStatus.CONNECTED} isUserTalking={isUserTalking} isModelTalking={isModelTalking} isMuted={config.isMuted} />
+          <div aria-hidden="true" className="flex items-center justify-center w-[120px]">
+            <Visualizer analysers={session.analysersRef} isActive={status === SessionStatus.CONNECTED} isMuted={config.isMuted} />
           </div>
 
           <div className="separator"></div>
 
           {/* Controls */}
           <div className="flex items-center gap-5">
-            <button onClick={status === SessionStatus.CONNECTED ? stopSession : () => startSession(false)} className={`w-9 h-9 flex items-center justify-center transition-all duration-300 rounded-full ${status === SessionStatus.CONNECTED ? 'bg-red-500 text-white' : 'icon-inactive hover:text-white'}`}>
-              <svg className={`w-5 h-5 ${status === SessionStatus.CONNECTED ? 'rotate-[135deg]' : ''}`} fill="currentColor" viewBox="0 0 24 24"><path d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z"></path></svg>
+            <button onClick={() => runAction('toggle-session')} disabled={!isOnline && !isSessionActive} title={!isOnline && !isSessionActive ? t.app.offline : undefined} aria-label={isSessionActive ? t.toolbar.endSession : t.toolbar.startSession} aria-keyshortcuts={shortcut('toggle-session')} className={`disabled:opacity-30 w-9 h-9 flex items-center justify-center transition-all duration-300 rounded-full ${isSessionActive ? 'bg-red-500 text-white' : 'icon-inactive hover:text-white'}`}>
+              <svg aria-hidden="true" className={`w-5 h-5 ${isSessionActive ? 'rotate-[135deg]' : ''}`} fill="currentColor" viewBox="0 0 24 24"><path d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z"></path></svg>
             </button>
             
-            <button onClick={() => setConfig(prev => ({...prev, isMuted: !prev.isMuted}))} className={`transition-all duration-300 ${config.isMuted ? 'text-red-500 scale-110' : 'icon-inactive hover:text-white'}`}>
-              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <button onClick={toggleMute} aria-label={t.toolbar.mute} aria-pressed={config.isMuted} aria-keyshortcuts={shortcut('toggle-mute')} title={t.toolbar.mute} className={`transition-all duration-300 ${config.isMuted ? 'text-red-500 scale-110' : 'icon-inactive hover:text-white'}`}>
+              <svg aria-hidden="true" className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 {config.isMuted ? <path strokeWidth="2.5" d="M18.364 18.364l-12.728-12.728M9 9v3a3 3 0 005.121 2.121M15 9V5a3 3 0 10-6 0v1m10 11a7.003 7.003 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4" /> : <path strokeWidth="2" d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-20a3 3 0 013 3v8a3 3 0 01-6 0V5a3 3 0 013-3z" />}
               </svg>
             </button>
 
-            <button onClick={() => toggleCamera()} title="Toggle Camera" className={`transition-all duration-300 ${config.isCameraEnabled ? 'text-green-400' : 'icon-inactive hover:text-white'}`}>
-              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeWidth="2" d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z"></path></svg>
+            <button onClick={cycleInputMode} title={t.toolbar.inputMode(t.inputModes[config.inputMode])} aria-label={t.toolbar.inputMode(t.inputModes[config.inputMode])} aria-keyshortcuts={shortcut('cycle-input-mode')} className={`transition-all duration-300 ${config.inputMode === 'always-on' ? 'icon-inactive hover:text-white' : 'text-amber-300'}`}>
+              <svg aria-hidden="true" className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                {config.inputMode === 'push-to-talk'
+                  ? <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 11.5V14m0-2.5v-6a1.5 1.5 0 113 0m-3 6a1.5 1.5 0 00-3 0v2a7.5 7.5 0 0015 0v-5a1.5 1.5 0 00-3 0m-6-3V11m0-5.5v-1a1.5 1.5 0 013 0v1m0 0V11m0-5.5a1.5 1.5 0 013 0v3m0 0V11" />
+                  : <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d={config.inputMode === 'vad' ? 'M3 12h3l3-7 4 14 3-7h5' : 'M3 12h18'} />}
+              </svg>
+            </button>
+
+            <button onClick={() => toggleCamera()} title={t.toolbar.camera} aria-label={t.toolbar.camera} aria-pressed={config.isCameraEnabled} aria-keyshortcuts={shortcut('toggle-camera')} className={`transition-all duration-300 ${config.isCameraEnabled ? 'text-green-400' : 'icon-inactive hover:text-white'}`}>
+              <svg aria-hidden="true" className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeWidth="2" d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z"></path></svg>
             </button>
 
-            <button onClick={() => toggleScreenShare()} title="Share Screen" className={`transition-all duration-300 ${config.isScreenSharing ? 'text-cyan-400 scale-110' : 'icon-inactive hover:text-white'}`}>
-              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <button onClick={() => toggleScreenShare()} title={t.toolbar.shareScreen} aria-label={t.toolbar.shareScreen} aria-pressed={config.isScreenSharing} aria-keyshortcuts={shortcut('toggle-screen-share')} className={`transition-all duration-300 ${config.isScreenSharing ? 'text-cyan-400 scale-110' : 'icon-inactive hover:text-white'}`}>
+              <svg aria-hidden="true" className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
               </svg>
             </button>
 
-            <button onClick={toggleMouseMode} title="Toggle Mouse Mode" className={`transition-all duration-300 ${config.isMouseMode ? 'text-blue-400' : 'icon-inactive hover:text-white'}`}>
-              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeWidth="2" d="M15 15l-2 5L9 9l11 4-5 2zm0 0l5 5"></path></svg>
+            <button onClick={toggleRecording} disabled={!canRecord} title={t.toolbar.record} aria-label={t.toolbar.record} aria-pressed={isRecording} aria-keyshortcuts={shortcut('toggle-recording')} className={`disabled:opacity-30 transition-all duration-300 ${isRecording ? 'text-red-500 scale-110' : 'icon-inactive hover:text-white'}`}>
+              <svg aria-hidden="true" className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                {isRecording ? <rect x="7" y="7" width="10" height="10" rx="1.5" strokeWidth="2" fill="currentColor" /> : <circle cx="12" cy="12" r="6" strokeWidth="2" fill="currentColor" />}
+                <circle cx="12" cy="12" r="10" strokeWidth="1.5" />
+              </svg>
+            </button>
+
+            <button onClick={toggleDeviceMenu} title={t.toolbar.devices} aria-label={t.toolbar.devices} aria-haspopup="dialog" aria-expanded={isDeviceMenuOpen} aria-keyshortcuts={shortcut('toggle-devices')} className={`transition-all duration-300 ${isDeviceMenuOpen ? 'text-white' : 'icon-inactive hover:text-white'}`}>
+              <svg aria-hidden="true" className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4"></path></svg>
+            </button>
+
+            <button onClick={toggleMouseMode} title={t.toolbar.mouseMode} aria-label={t.toolbar.mouseMode} aria-pressed={config.isMouseMode} aria-keyshortcuts={shortcut('toggle-mouse-mode')} className={`transition-all duration-300 ${config.isMouseMode ? 'text-blue-400' : 'icon-inactive hover:text-white'}`}>
+              <svg aria-hidden="true" className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeWidth="2" d="M15 15l-2 5L9 9l11 4-5 2zm0 0l5 5"></path></svg>
+            </button>
+
+            <button onClick={() => setIsTranscriptOpen(prev => !prev)} title={t.toolbar.transcript} aria-label={t.toolbar.transcript} aria-expanded={isTranscriptOpen} aria-keyshortcuts={shortcut('toggle-transcript')} className={`transition-all duration-300 ${isTranscriptOpen ? 'text-white' : 'icon-inactive hover:text-white'}`}>
+              <svg aria-hidden="true" className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 10h8M8 14h5M21 12c0 4.418-4.03 8-9 8a9.86 9.86 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z"></path></svg>
+            </button>
+
+            <button onClick={toggleMacros} title={t.toolbar.macros} aria-label={isRecordingMacro ? t.toolbar.macrosRecording : t.toolbar.macros} aria-expanded={isMacrosOpen} aria-keyshortcuts={shortcut('toggle-macros')} className={`transition-all duration-300 ${isMacrosOpen ? 'text-white' : isRecordingMacro ? 'text-red-400' : 'icon-inactive hover:text-white'}`}>
+              <svg aria-hidden="true" className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 6h16M4 12h10M4 18h7m8-4l-4 3 4 3v-6z"></path></svg>
+            </button>
+
+            <button onClick={toggleHistory} title={t.toolbar.history} aria-label={t.toolbar.history} aria-expanded={isHistoryOpen} aria-keyshortcuts={shortcut('toggle-history')} className={`transition-all duration-300 ${isHistoryOpen ? 'text-white' : 'icon-inactive hover:text-white'}`}>
+              <svg aria-hidden="true" className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
+            </button>
+
+            <button onClick={() => setIsSettingsOpen(prev => !prev)} title={t.toolbar.settings} aria-label={t.toolbar.settings} aria-expanded={isSettingsOpen} aria-keyshortcuts={shortcut('toggle-settings')} className={`transition-all duration-300 ${isSettingsOpen ? 'text-white' : 'icon-inactive hover:text-white'}`}>
+              <svg aria-hidden="true" className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"></path><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"></path></svg>
             </button>
           </div>
         </div>
@@ -0,0 +1,116 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AppAction } from '../types';
+import { hotkeyLabel } from '../utils/hotkeys';
+import { Messages } from '../utils/i18n';
+
+export interface PaletteEntry {
+  action: AppAction;
+  label: string;
+  hotkey: string;
+  disabled?: boolean;
+}
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  messages: Messages;
+  entries: PaletteEntry[];
+  onRun: (action: AppAction) => void;
+  onClose: () => void;
+}
+
+// Combobox pattern: focus stays in the filter field and arrow keys move the active option.
+const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, messages, entries, onRun, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const returnFocusRef = useRef<HTMLElement | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    returnFocusRef.current = document.activeElement as HTMLElement | null;
+    setQuery('');
+    setActiveIndex(0);
+    inputRef.current?.focus();
+    return () => returnFocusRef.current?.focus?.();
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const needle = query.trim().toLowerCase();
+  const matches = entries.filter(e => !needle || e.label.toLowerCase().includes(needle) || e.action.includes(needle));
+  const active = Math.min(activeIndex, Math.max(0, matches.length - 1));
+
+  const run = (entry: PaletteEntry | undefined) => {
+    if (!entry || entry.disabled) return;
+    onClose();
+    onRun(entry.action);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (!matches.length) return;
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((active + step + matches.length) % matches.length);
+    } else if (e.key === 'Home' || e.key === 'End') {
+      e.preventDefault();
+      setActiveIndex(e.key === 'Home' ? 0 : matches.length - 1);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      run(matches[active]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === 'Tab') {
+      // The palette is modal; Tab would otherwise wander into the page behind it.
+      e.preventDefault();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center pt-[15vh] bg-black/30" onMouseDown={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={messages.palette.title}
+        onMouseDown={e => e.stopPropagation()}
+        className="w-[440px] bg-[#1a1d23] text-white border border-white/10 rounded-2xl shadow-2xl flex flex-col overflow-hidden"
+      >
+        <input
+          ref={inputRef}
+          value={query}
+          onChange={e => { setQuery(e.target.value); setActiveIndex(0); }}
+          onKeyDown={handleKeyDown}
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="command-palette-options"
+          aria-activedescendant={matches[active] ? `command-${matches[active].action}` : undefined}
+          aria-autocomplete="list"
+          aria-label={messages.palette.search}
+          placeholder={messages.palette.placeholder}
+          className="bg-transparent px-5 py-4 text-sm outline-none border-b border-white/5"
+        />
+        <ul id="command-palette-options" role="listbox" aria-label={messages.palette.list} className="custom-scrollbar max-h-[50vh] overflow-y-auto py-2">
+          {matches.length === 0 && <li className="px-5 py-2 text-xs text-gray-500">{messages.palette.empty}</li>}
+          {matches.map((entry, i) => (
+            <li
+              key={entry.action}
+              id={`command-${entry.action}`}
+              role="option"
+              aria-selected={i === active}
+              aria-disabled={entry.disabled || undefined}
+              onMouseEnter={() => setActiveIndex(i)}
+              onClick={() => run(entry)}
+              className={`flex items-center justify-between px-5 py-2 text-xs cursor-pointer ${i === active ? 'bg-white/10' : ''} ${entry.disabled ? 'opacity-40 cursor-default' : ''}`}
+            >
+              <span>{entry.label}</span>
+              {entry.hotkey && <kbd className="text-[10px] font-mono text-gray-400">{hotkeyLabel(entry.hotkey)}</kbd>}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { DeviceSelection } from '../types';
+import { DeviceKind, DeviceLists, SELECTION_KEYS, deviceLabel } from '../utils/devices';
+import { Messages } from '../utils/i18n';
+
+interface DeviceMenuProps {
+  isOpen: boolean;
+  messages: Messages;
+  devices: DeviceLists;
+  selection: DeviceSelection;
+  canSelectOutput: boolean;
+  onSelect: (kind: DeviceKind, deviceId: string) => void;
+  onClose: () => void;
+}
+
+const ROWS: { kind: DeviceKind; label: 'microphone' | 'speaker' | 'camera' }[] = [
+  { kind: 'audioinput', label: 'microphone' },
+  { kind: 'audiooutput', label: 'speaker' },
+  { kind: 'videoinput', label: 'camera' },
+];
+
+// Changes apply immediately, including mid-session; the Live connection is kept.
+const DeviceMenu: React.FC<DeviceMenuProps> = ({ isOpen, messages, devices, selection, canSelectOutput, onSelect, onClose }) => {
+  if (!isOpen) return null;
+
+  return (
+    <div role="dialog" aria-label={messages.devices.title} onKeyDown={e => { if (e.key === 'Escape') { e.stopPropagation(); onClose(); } }} className="absolute bottom-full mb-4 left-1/2 -translate-x-1/2 w-80 bg-[#1a1d23] text-white border border-white/10 rounded-2xl shadow-2xl p-4 flex flex-col gap-3 z-40">
+      <div className="flex items-center justify-between">
+        <div className="text-[10px] font-bold uppercase tracking-widest text-gray-400">{messages.devices.title}</div>
+        <button onClick={onClose} title={messages.devices.close} aria-label={messages.devices.close} className="icon-inactive hover:text-white">
+          <svg aria-hidden="true" className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+        </button>
+      </div>
+      {ROWS.map(({ kind, label }) => {
+        const disabled = kind === 'audiooutput' && !canSelectOutput;
+        return (
+          <label key={kind} className="flex flex-col gap-1 text-xs text-gray-300">
+            {messages.devices[label]}
+            <select
+              value={selection[SELECTION_KEYS[kind]]}
+              disabled={disabled}
+              onChange={e => onSelect(kind, e.target.value)}
+              className="w-full bg-white/5 rounded-xl px-3 py-2 text-xs outline-none focus:ring-1 focus:ring-blue-400 disabled:opacity-40"
+            >
+              <option value="">{messages.devices.systemDefault}</option>
+              {devices[kind].map((device, i) => <option key={device.deviceId} value={device.deviceId}>{deviceLabel(device, i)}</option>)}
+            </select>
+            {disabled && <span className="text-[10px] text-gray-500">{messages.devices.noOutputSelection}</span>}
+          </label>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DeviceMenu;
@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { LocaleCode, SessionRecord } from '../types';
+import { deleteSession, exportSessions, searchSessions } from '../utils/session-history';
+import { commandDetail } from '../utils/mouse-commands';
+import { Messages } from '../utils/i18n';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  locale: LocaleCode;
+  messages: Messages;
+  onClose: () => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, locale, messages, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = (q: string) => {
+    searchSessions(q)
+      .then(results => { setSessions(results); setError(null); })
+      .catch(err => setError(messages.history.readFailed(String(err?.message ?? err))));
+  };
+
+  useEffect(() => {
+    if (isOpen) refresh(query);
+  }, [isOpen, query]);
+
+  const selected = sessions.find(s => s.id === selectedId) ?? null;
+
+  const remove = async (id: string) => {
+    await deleteSession(id);
+    if (selectedId === id) setSelectedId(null);
+    refresh(query);
+  };
+
+  return (
+    <div role="region" aria-label={messages.history.title} inert={!isOpen} onKeyDown={e => { if (e.key === 'Escape') { e.stopPropagation(); onClose(); } }} className={`fixed inset-y-0 start-0 w-[420px] bg-[#1a1d23] text-white shadow-2xl border-e border-white/5 z-40 flex flex-col transition-transform duration-500 ${isOpen ? 'translate-x-0' : '-translate-x-full rtl:translate-x-full'}`}>
+      <div className="flex items-center justify-between px-6 pt-6 pb-4">
+        <div className="text-xs font-bold uppercase tracking-widest text-gray-400">{messages.history.title}</div>
+        <button onClick={onClose} title={messages.history.close} aria-label={messages.history.close} className="icon-inactive hover:text-white">
+          <svg aria-hidden="true" className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+        </button>
+      </div>
+
+      <div className="px-6 pb-4 flex gap-2">
+        <input
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          aria-label={messages.history.search}
+          placeholder={messages.history.searchPlaceholder}
+          className="flex-1 bg-white/5 rounded-xl px-3 py-2 text-xs outline-none focus:ring-1 focus:ring-blue-400"
+        />
+        <button onClick={() => exportSessions(sessions, 'markdown')} disabled={!sessions.length} aria-label={messages.history.exportAllMarkdown} className="text-[10px] uppercase tracking-wider px-3 rounded-xl bg-white/5 hover:bg-white/10 disabled:opacity-30">MD</button>
+        <button onClick={() => exportSessions(sessions, 'json')} disabled={!sessions.length} aria-label={messages.history.exportAllJson} className="text-[10px] uppercase tracking-wider px-3 rounded-xl bg-white/5 hover:bg-white/10 disabled:opacity-30">JSON</button>
+      </div>
+
+      {error && <div className="px-6 pb-2 text-red-400 text-xs">{error}</div>}
+
+      <div className="custom-scrollbar flex-1 overflow-y-auto px-6 pb-6 flex flex-col gap-2">
+        {sessions.length === 0 && !error && <div className="text-gray-500 text-xs">{messages.history.empty}</div>}
+        {sessions.map(session => (
+          <div key={session.id} className={`rounded-2xl p-3 cursor-pointer transition-colors ${session.id === selectedId ? 'bg-white/10' : 'bg-white/5 hover:bg-white/10'}`} onClick={() => setSelectedId(session.id === selectedId ? null : session.id)}>
+            <div className="flex items-center justify-between">
+              <div className="text-xs font-medium">{new Date(session.startedAt).toLocaleString(locale)}</div>
+              <div className={`text-[9px] uppercase tracking-widest ${session.mode === 'mouse' ? 'text-blue-400' : 'text-green-400'}`}>{messages.settings.modes[session.mode]}</div>
+            </div>
+            <div className="text-[10px] text-gray-400 mt-1">
+              {messages.history.summary(session.transcript.length, session.commands.length)}
+              {session.endedAt && ` · ${Math.round((session.endedAt - session.startedAt) / 1000)}s`}
+            </div>
+            {selected?.id === session.id && (
+              <div className="mt-3 flex flex-col gap-2" onClick={e => e.stopPropagation()}>
+                {session.transcript.map((entry, i) => (
+                  <div key={i} className="text-[11px] leading-relaxed">
+                    <span className={entry.role === 'user' ? 'text-blue-300' : 'text-gray-300'}>{entry.role === 'user' ? messages.history.you : messages.history.model}:</span> {entry.text}
+                  </div>
+                ))}
+                {session.commands.map((c, i) => (
+                  <div key={`c${i}`} className={`text-[10px] font-mono ${c.ok ? 'text-green-400' : 'text-red-400'}`}>
+                    {c.command.action} {commandDetail(c.command)} {c.ok ? '' : `(${c.error})`}
+                  </div>
+                ))}
+                <div className="flex gap-2 mt-1">
+                  <button onClick={() => exportSessions([session], 'markdown')} className="text-[10px] uppercase tracking-wider px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10">{messages.history.exportMarkdown}</button>
+                  <button onClick={() => exportSessions([session], 'json')} className="text-[10px] uppercase tracking-wider px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10">{messages.history.exportJson}</button>
+                  <button onClick={() => remove(session.id)} className="text-[10px] uppercase tracking-wider px-3 py-1 rounded-lg bg-red-500/20 text-red-300 hover:bg-red-500/30 ms-auto">{messages.history.delete}</button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { Macro } from '../types';
+import { parseMacroSteps } from '../utils/macros';
+import { commandDetail } from '../utils/mouse-commands';
+import { Messages } from '../utils/i18n';
+
+interface MacroPanelProps {
+  isOpen: boolean;
+  messages: Messages;
+  macros: Macro[];
+  isRecording: boolean;
+  runningId: string | null;
+  onRun: (macro: Macro) => void;
+  onStopRun: () => void;
+  onDiscardRecording: () => void;
+  onChange: (macros: Macro[]) => void;
+  onClose: () => void;
+}
+
+const buttonClass = 'text-[10px] uppercase tracking-wider px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10 disabled:opacity-30';
+
+const MacroPanel: React.FC<MacroPanelProps> = ({ isOpen, messages, macros, isRecording, runningId, onRun, onStopRun, onDiscardRecording, onChange, onClose }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [draftSteps, setDraftSteps] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) setEditingId(null);
+  }, [isOpen]);
+
+  const startEditing = (macro: Macro) => {
+    setEditingId(macro.id);
+    setDraftName(macro.name);
+    setDraftSteps(JSON.stringify(macro.steps, null, 2));
+    setError(null);
+  };
+
+  const saveEdit = (macro: Macro) => {
+    const { steps, error: parseError } = parseMacroSteps(draftSteps);
+    if (parseError) return setError(parseError);
+    if (!draftName.trim()) return setError(messages.macros.nameRequired);
+    onChange(macros.map(m => (m.id === macro.id ? { ...m, name: draftName.trim(), steps } : m)));
+    setEditingId(null);
+  };
+
+  const remove = (id: string) => {
+    if (editingId === id) setEditingId(null);
+    onChange(macros.filter(m => m.id !== id));
+  };
+
+  return (
+    <div role="region" aria-label={messages.macros.title} inert={!isOpen} onKeyDown={e => { if (e.key === 'Escape') { e.stopPropagation(); onClose(); } }} className={`fixed inset-y-0 start-0 w-[420px] bg-[#1a1d23] text-white shadow-2xl border-e border-white/5 z-40 flex flex-col transition-transform duration-500 ${isOpen ? 'translate-x-0' : '-translate-x-full rtl:translate-x-full'}`}>
+      <div className="flex items-center justify-between px-6 pt-6 pb-4">
+        <div className="text-xs font-bold uppercase tracking-widest text-gray-400">{messages.macros.title}</div>
+        <button onClick={onClose} title={messages.macros.close} aria-label={messages.macros.close} className="icon-inactive hover:text-white">
+          <svg aria-hidden="true" className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+        </button>
+      </div>
+
+      <div className="px-6 pb-4 text-[11px] text-gray-400 leading-relaxed">
+        {isRecording
+          ? (
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-red-300">{messages.macros.recordingHint}</span>
+              <button onClick={onDiscardRecording} className={buttonClass}>{messages.macros.discard}</button>
+            </div>
+          )
+          : messages.macros.hint}
+      </div>
+
+      <div className="custom-scrollbar flex-1 overflow-y-auto px-6 pb-6 flex flex-col gap-2">
+        {macros.length === 0 && <div className="text-gray-500 text-xs">{messages.macros.empty}</div>}
+        {macros.map(macro => (
+          <div key={macro.id} className={`rounded-2xl p-3 ${macro.id === runningId ? 'bg-blue-500/20' : 'bg-white/5'}`}>
+            <div className="flex items-center justify-between">
+              <div className="text-xs font-medium">{macro.name}</div>
+              <div className="text-[10px] text-gray-400">{messages.macros.steps(macro.steps.length)}</div>
+            </div>
+
+            {editingId === macro.id ? (
+              <div className="mt-3 flex flex-col gap-2">
+                <input aria-label={messages.macros.name} value={draftName} onChange={e => setDraftName(e.target.value)} className="bg-white/5 rounded-xl px-3 py-2 text-xs outline-none focus:ring-1 focus:ring-blue-400" />
+                <textarea aria-label={messages.macros.stepsJson} value={draftSteps} onChange={e => setDraftSteps(e.target.value)} rows={10} spellCheck={false} className="custom-scrollbar bg-white/5 rounded-xl px-3 py-2 text-[10px] font-mono outline-none focus:ring-1 focus:ring-blue-400" />
+                {error && <div className="text-red-400 text-[10px]">{error}</div>}
+                <div className="flex gap-2">
+                  <button onClick={() => saveEdit(macro)} className={buttonClass}>{messages.macros.save}</button>
+                  <button onClick={() => setEditingId(null)} className={buttonClass}>{messages.macros.cancel}</button>
+                </div>
+              </div>
+            ) : (
+              <>
+                <div className="mt-2 flex flex-col gap-0.5">
+                  {macro.steps.map((step, i) => (
+                    <div key={i} className="text-[10px] font-mono text-gray-300">
+                      {i + 1}. {step.command.action} {commandDetail(step.command)} {step.command.target?.label ?? ''}
+                      {step.delayMs > 0 && <span className="text-gray-500"> (+{(step.delayMs / 1000).toFixed(1)}s)</span>}
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-2 mt-3">
+                  {macro.id === runningId
+                    ? <button onClick={onStopRun} className={buttonClass}>{messages.macros.stop}</button>
+                    : <button onClick={() => onRun(macro)} disabled={!!runningId || isRecording} className={buttonClass}>{messages.macros.run}</button>}
+                  <button onClick={() => startEditing(macro)} disabled={macro.id === runningId} className={buttonClass}>{messages.macros.edit}</button>
+                  <button onClick={() => remove(macro.id)} disabled={macro.id === runningId} className="text-[10px] uppercase tracking-wider px-3 py-1 rounded-lg bg-red-500/20 text-red-300 hover:bg-red-500/30 ms-auto disabled:opacity-30">{messages.macros.delete}</button>
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MacroPanel;
@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { LatencyStats, SessionMetricsSummary } from '../types';
+import { SessionMetrics, exportMetrics, formatBytes } from '../utils/metrics';
+import { Messages } from '../utils/i18n';
+
+interface MetricsOverlayProps {
+  isOpen: boolean;
+  metrics: SessionMetrics;
+  messages: Messages;
+  onClose: () => void;
+}
+
+// Metrics are plain counters rather than React state, so the overlay polls them while it is open.
+const REFRESH_MS = 500;
+
+const ms = (value: number | null) => (value === null ? '—' : `${value} ms`);
+
+const MetricsOverlay: React.FC<MetricsOverlayProps> = ({ isOpen, metrics, messages, onClose }) => {
+  const [summary, setSummary] = useState<SessionMetricsSummary>(() => metrics.summary());
+  const [isCollapsed, setIsCollapsed] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSummary(metrics.summary());
+    const timer = window.setInterval(() => setSummary(metrics.summary()), REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [isOpen, metrics]);
+
+  if (!isOpen) return null;
+
+  const t = messages.metrics;
+  const latency = (stats: LatencyStats) => t.latency(ms(stats.last), ms(stats.p50), ms(stats.p95), stats.count);
+  const rows = [
+    { label: t.connect, value: latency(summary.connect) },
+    { label: t.response, value: latency(summary.response) },
+    { label: t.media, value: t.mediaSent(summary.media.frames, formatBytes(summary.media.bytes)) },
+    { label: t.commands, value: t.commandCounts(summary.commands.parsed, summary.commands.failed) },
+  ];
+
+  return (
+    <div role="region" aria-label={t.title} onKeyDown={e => { if (e.key === 'Escape') { e.stopPropagation(); onClose(); } }} className="fixed bottom-10 end-10 w-80 bg-[#1a1d23] text-white rounded-3xl shadow-2xl border border-white/5 z-30 flex flex-col">
+      <div className="flex items-center gap-2 px-5 pt-4 pb-2">
+        <button onClick={() => setIsCollapsed(prev => !prev)} aria-expanded={!isCollapsed} aria-label={isCollapsed ? t.expand : t.collapse} className="flex-1 flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-gray-400 hover:text-white text-start">
+          <svg aria-hidden="true" className={`w-3 h-3 transition-transform ${isCollapsed ? '-rotate-90 rtl:rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path></svg>
+          {t.title}
+        </button>
+        <button onClick={() => exportMetrics(summary)} disabled={!summary.sessionId} className="text-[10px] uppercase tracking-wider px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10 disabled:opacity-30">{t.export}</button>
+        <button onClick={onClose} title={t.close} aria-label={t.close} className="icon-inactive hover:text-white">
+          <svg aria-hidden="true" className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+        </button>
+      </div>
+      {!isCollapsed && (
+        <div className="px-5 pb-4 flex flex-col gap-2">
+          <dl className="flex flex-col gap-2">
+            {rows.map(({ label, value }) => (
+              <div key={label} className="flex flex-col">
+                <dt className="text-[10px] text-gray-400">{label}</dt>
+                <dd className="text-[11px] font-mono text-gray-100">{value}</dd>
+              </div>
+            ))}
+          </dl>
+          <div className="text-[10px] text-gray-500">{t.localOnly}</div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MetricsOverlay;
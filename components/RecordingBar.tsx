@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { Recording, RecordingFormat, exportCaptions, exportRecording } from '../utils/recorder';
+import { Messages } from '../utils/i18n';
+
+interface RecordingBarProps {
+  recording: Recording | null;
+  messages: Messages;
+  onDiscard: () => void;
+}
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Shown once a recording has stopped; it stays in memory until it is discarded or a new one starts.
+const RecordingBar: React.FC<RecordingBarProps> = ({ recording, messages, onDiscard }) => {
+  const [error, setError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  if (!recording) return null;
+
+  const download = async (format: RecordingFormat) => {
+    setError(null);
+    setIsExporting(true);
+    try {
+      await exportRecording(recording, format);
+    } catch (err) {
+      setError(messages.recording.exportFailed(String((err as Error)?.message ?? err)));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const button = 'text-[10px] uppercase tracking-wider px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10 disabled:opacity-30';
+
+  return (
+    <div role="group" aria-label={messages.recording.label} className="bg-[#1a1d23] text-white border border-white/10 rounded-2xl px-4 py-3 shadow-2xl flex flex-col gap-2 text-xs">
+      <div className="flex items-center gap-3">
+        <span>{messages.recording.title(formatDuration(recording.durationMs))}</span>
+        <button onClick={() => download('webm')} disabled={isExporting} aria-label={recording.video ? messages.recording.downloadVideo : messages.recording.downloadWebm} className={button}>{recording.video ? messages.recording.video : 'WebM'}</button>
+        <button onClick={() => download('wav')} disabled={isExporting} aria-label={messages.recording.downloadWav} className={button}>WAV</button>
+        <button onClick={() => exportCaptions(recording)} disabled={!recording.captions.length} aria-label={messages.recording.downloadSubtitles} className={button}>{messages.recording.subtitles}</button>
+        <button onClick={onDiscard} aria-label={messages.recording.discardRecording} className={`${button} text-red-300`}>{messages.recording.discard}</button>
+      </div>
+      {recording.micMissing && <div className="text-amber-300 text-[10px]">{messages.recording.micMissing}</div>}
+      {error && <div role="alert" className="text-red-300 text-[10px]">{error}</div>}
+    </div>
+  );
+};
+
+export default RecordingBar;
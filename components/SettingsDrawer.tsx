@@ -0,0 +1,287 @@
+import React, { useEffect, useState } from 'react';
+import { AppAction, AppSettings, InputMode, InstructionPreset, LocaleCode, MouseCommand } from '../types';
+import { DEFAULT_SETTINGS, MODEL_OPTIONS, RESOLUTION_OPTIONS, VOICE_OPTIONS, BUILTIN_PRESETS } from '../utils/settings';
+import { getRuntimeApiKey, setRuntimeApiKey } from '../utils/credentials';
+import { APP_ACTIONS, bindHotkey, comboFromEvent, hotkeyLabel } from '../utils/hotkeys';
+import { LOCALES, Messages, localeInfo } from '../utils/i18n';
+
+interface SettingsDrawerProps {
+  isOpen: boolean;
+  messages: Messages;
+  settings: AppSettings;
+  isSessionActive: boolean;
+  onSave: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+const labelClass = 'text-[10px] font-bold uppercase tracking-widest text-gray-400';
+const fieldClass = 'w-full bg-white/5 rounded-xl px-3 py-2 text-xs outline-none focus:ring-1 focus:ring-blue-400';
+const CONFIRMABLE_ACTIONS: MouseCommand['action'][] = [
+  'open', 'type_text', 'key_combo', 'left_click', 'right_click', 'double_click', 'mouse_down', 'scroll', 'move',
+];
+
+const parseList = (text: string) => text.split(',').map(s => s.trim()).filter(Boolean);
+
+const SettingsDrawer: React.FC<SettingsDrawerProps> = ({ isOpen, messages: t, settings, isSessionActive, onSave, onClose }) => {
+  const [draft, setDraft] = useState<AppSettings>(settings);
+  const [editingId, setEditingId] = useState(settings.mousePresetId);
+  const [isCapturingKey, setIsCapturingKey] = useState(false);
+  const [capturingAction, setCapturingAction] = useState<AppAction | null>(null);
+  const [apiKeyInput, setApiKeyInput] = useState('');
+  const [hasRuntimeKey, setHasRuntimeKey] = useState(() => !!getRuntimeApiKey());
+
+  // Every time the drawer opens it starts from the saved settings.
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(settings);
+      setEditingId(settings.mousePresetId);
+      setHasRuntimeKey(!!getRuntimeApiKey());
+    }
+  }, [isOpen, settings]);
+
+  // Applied immediately rather than with Save: the key never goes into the persisted settings.
+  const applyRuntimeKey = () => {
+    setRuntimeApiKey(apiKeyInput.trim());
+    setApiKeyInput('');
+    setHasRuntimeKey(true);
+  };
+  const forgetRuntimeKey = () => {
+    setRuntimeApiKey(null);
+    setHasRuntimeKey(false);
+  };
+
+  const editing = draft.presets.find(p => p.id === editingId) ?? draft.presets[0];
+  const isBuiltin = BUILTIN_PRESETS.some(p => p.id === editing?.id);
+
+  // Built-in presets keep showing their translated name until the user renames them.
+  const presetName = (preset: InstructionPreset) => {
+    const builtin = BUILTIN_PRESETS.find(p => p.id === preset.id);
+    if (!builtin || preset.name !== builtin.name) return preset.name;
+    return preset.id === 'mouse' ? t.instructions.presetNames.mouse : t.instructions.presetNames.normal;
+  };
+
+  const update = (patch: Partial<AppSettings>) => setDraft(prev => ({ ...prev, ...patch }));
+  const updateMedia = (patch: Partial<AppSettings['media']>) => setDraft(prev => ({ ...prev, media: { ...prev.media, ...patch } }));
+  const updatePolicy = (patch: Partial<AppSettings['policy']>) => setDraft(prev => ({ ...prev, policy: { ...prev.policy, ...patch } }));
+  const selectLocale = (locale: LocaleCode) => update({ locale, voiceName: localeInfo(locale).voiceName });
+  const toggleConfirm = (action: MouseCommand['action']) => {
+    const actions = draft.policy.confirmActions;
+    updatePolicy({ confirmActions: actions.includes(action) ? actions.filter(a => a !== action) : [...actions, action] });
+  };
+  const updatePreset = (patch: Partial<InstructionPreset>) =>
+    setDraft(prev => ({ ...prev, presets: prev.presets.map(p => (p.id === editing.id ? { ...p, ...patch } : p)) }));
+
+  const addPreset = () => {
+    const preset = { id: crypto.randomUUID(), name: t.settings.newPresetName, text: editing?.text ?? '' };
+    setDraft(prev => ({ ...prev, presets: [...prev.presets, preset] }));
+    setEditingId(preset.id);
+  };
+
+  const deletePreset = () => {
+    const remaining = draft.presets.filter(p => p.id !== editing.id);
+    const fallback = (id: string) => (id === editing.id ? remaining[0].id : id);
+    update({ presets: remaining, mousePresetId: fallback(draft.mousePresetId), normalPresetId: fallback(draft.normalPresetId) });
+    setEditingId(remaining[0].id);
+  };
+
+  const resetPreset = () => {
+    const original = BUILTIN_PRESETS.find(p => p.id === editing.id);
+    if (original) updatePreset({ name: original.name, text: original.text });
+  };
+
+  const captureKey = (e: React.KeyboardEvent) => {
+    if (!isCapturingKey) return;
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.code !== 'Escape') update({ pushToTalkKey: e.code });
+    setIsCapturingKey(false);
+  };
+
+  // Escape cancels, Backspace or Delete unbinds; modifiers alone keep waiting for the rest of the combo.
+  const captureHotkey = (e: React.KeyboardEvent, action: AppAction) => {
+    if (capturingAction !== action || e.key === 'Tab') return;
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.code === 'Escape') return setCapturingAction(null);
+    if (e.code === 'Backspace' || e.code === 'Delete') {
+      update({ hotkeys: { ...draft.hotkeys, [action]: '' } });
+      return setCapturingAction(null);
+    }
+    const combo = comboFromEvent(e);
+    if (!combo) return;
+    update({ hotkeys: bindHotkey(draft.hotkeys, action, combo) });
+    setCapturingAction(null);
+  };
+
+  const resolution = `${draft.media.width}x${draft.media.height}`;
+
+  return (
+    <div role="region" aria-label={t.settings.title} inert={!isOpen} onKeyDown={e => { if (e.key === 'Escape') { e.stopPropagation(); onClose(); } }} className={`fixed inset-y-0 end-0 w-[420px] bg-[#1a1d23] text-white shadow-2xl border-s border-white/5 z-40 flex flex-col transition-transform duration-500 ${isOpen ? 'translate-x-0' : 'translate-x-full rtl:-translate-x-full'}`}>
+      <div className="flex items-center justify-between px-6 pt-6 pb-4">
+        <div className="text-xs font-bold uppercase tracking-widest text-gray-400">{t.settings.title}</div>
+        <button onClick={onClose} title={t.settings.close} aria-label={t.settings.close} className="icon-inactive hover:text-white">
+          <svg aria-hidden="true" className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+        </button>
+      </div>
+
+      <div className="custom-scrollbar flex-1 overflow-y-auto px-6 pb-6 flex flex-col gap-5">
+        <div className="flex flex-col gap-2">
+          <div className={labelClass} id="settings-language">{t.settings.language}</div>
+          <select aria-labelledby="settings-language" value={draft.locale} onChange={e => selectLocale(e.target.value as LocaleCode)} className={fieldClass}>
+            {LOCALES.map(l => <option key={l.code} value={l.code} lang={l.code}>{l.name}</option>)}
+          </select>
+          <div className="text-[10px] text-gray-500">{t.settings.languageHint}</div>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <div className={labelClass}>{t.settings.apiKey}</div>
+          {hasRuntimeKey ? (
+            <div className="flex items-center justify-between gap-3 text-xs">
+              <span className="text-green-300">{t.settings.usingOwnKey}</span>
+              <button onClick={forgetRuntimeKey} className="text-[10px] uppercase tracking-wider px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10">{t.settings.forget}</button>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <input type="password" autoComplete="off" aria-label={t.settings.apiKey} value={apiKeyInput} onChange={e => setApiKeyInput(e.target.value)} placeholder={t.settings.apiKeyPlaceholder} className={fieldClass} />
+              <button onClick={applyRuntimeKey} disabled={!apiKeyInput.trim()} className="text-[10px] uppercase tracking-wider px-3 rounded-xl bg-white/5 hover:bg-white/10 disabled:opacity-30">{t.settings.use}</button>
+            </div>
+          )}
+          <div className="text-[10px] text-gray-500">{t.settings.apiKeyHint}</div>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <div className={labelClass} id="settings-voice">{t.settings.voice}</div>
+          <select aria-labelledby="settings-voice" value={draft.voiceName} onChange={e => update({ voiceName: e.target.value as AppSettings['voiceName'] })} className={fieldClass}>
+            {VOICE_OPTIONS.map(v => <option key={v} value={v}>{v}</option>)}
+          </select>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <div className={labelClass} id="settings-model">{t.settings.model}</div>
+          <input aria-labelledby="settings-model" list="model-options" value={draft.model} onChange={e => update({ model: e.target.value })} className={fieldClass} />
+          <datalist id="model-options">
+            {MODEL_OPTIONS.map(m => <option key={m} value={m} />)}
+          </datalist>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <div className={labelClass} id="settings-default-mode">{t.settings.defaultMode}</div>
+          <div role="group" aria-labelledby="settings-default-mode" className="flex gap-2">
+            {(['mouse', 'normal'] as const).map(mode => (
+              <button key={mode} onClick={() => update({ defaultMode: mode })} aria-pressed={draft.defaultMode === mode} className={`flex-1 rounded-xl py-2 text-xs ${draft.defaultMode === mode ? 'bg-blue-500/30 text-blue-200' : 'bg-white/5 hover:bg-white/10'}`}>{t.settings.modes[mode]}</button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <div className={labelClass} id="settings-input-mode">{t.settings.microphoneInput}</div>
+          <select aria-labelledby="settings-input-mode" value={draft.inputMode} onChange={e => update({ inputMode: e.target.value as InputMode })} className={fieldClass}>
+            <option value="always-on">{t.settings.inputModeOptions['always-on']}</option>
+            <option value="vad">{t.settings.inputModeOptions.vad}</option>
+            <option value="push-to-talk">{t.settings.inputModeOptions['push-to-talk']}</option>
+          </select>
+          {draft.inputMode === 'push-to-talk' && (
+            <button onClick={() => setIsCapturingKey(true)} onKeyDown={captureKey} onBlur={() => setIsCapturingKey(false)} className={`${fieldClass} text-start`}>
+              {isCapturingKey ? t.settings.pressKey : t.settings.talkKey(draft.pushToTalkKey)}
+            </button>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <div className={labelClass} id="settings-hotkeys">{t.settings.shortcuts}</div>
+          <div role="group" aria-labelledby="settings-hotkeys" className="flex flex-col gap-1">
+            {APP_ACTIONS.map(action => (
+              <div key={action} className="flex items-center justify-between gap-3 text-xs">
+                <span className="text-gray-300">{t.actions[action]}</span>
+                <button
+                  onClick={() => setCapturingAction(action)}
+                  onKeyDown={e => captureHotkey(e, action)}
+                  onBlur={() => setCapturingAction(null)}
+                  aria-label={t.settings.shortcutButton(t.actions[action], draft.hotkeys[action] ? hotkeyLabel(draft.hotkeys[action]) : t.settings.shortcutUnset)}
+                  className={`min-w-[96px] text-[10px] font-mono px-3 py-1 rounded-lg ${capturingAction === action ? 'bg-blue-500/30 text-blue-200' : 'bg-white/5 hover:bg-white/10'}`}
+                >
+                  {capturingAction === action ? t.settings.pressKeys : hotkeyLabel(draft.hotkeys[action]) || '—'}
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="text-[10px] text-gray-500">{t.settings.shortcutsHint}</div>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center justify-between">
+            <div className={labelClass}>{t.settings.instructions}</div>
+            <button onClick={addPreset} className="text-[10px] uppercase tracking-wider px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10">{t.settings.newPreset}</button>
+          </div>
+          <select aria-label={t.settings.presetToEdit} value={editing?.id} onChange={e => setEditingId(e.target.value)} className={fieldClass}>
+            {draft.presets.map(p => <option key={p.id} value={p.id}>{presetName(p)}</option>)}
+          </select>
+          {editing && (
+            <>
+              <input value={editing.name} onChange={e => updatePreset({ name: e.target.value })} aria-label={t.settings.presetName} placeholder={t.settings.presetName} className={fieldClass} />
+              <textarea value={editing.text} onChange={e => updatePreset({ text: e.target.value })} rows={6} className={`${fieldClass} custom-scrollbar resize-none leading-relaxed`} />
+              <div className="flex gap-2">
+                <button onClick={() => update({ mousePresetId: editing.id })} disabled={draft.mousePresetId === editing.id} className="text-[10px] uppercase tracking-wider px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10 disabled:text-blue-300 disabled:bg-blue-500/20">
+                  {draft.mousePresetId === editing.id ? t.settings.usedForMouse : t.settings.useForMouse}
+                </button>
+                <button onClick={() => update({ normalPresetId: editing.id })} disabled={draft.normalPresetId === editing.id} className="text-[10px] uppercase tracking-wider px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10 disabled:text-green-300 disabled:bg-green-500/20">
+                  {draft.normalPresetId === editing.id ? t.settings.usedForNormal : t.settings.useForNormal}
+                </button>
+                {isBuiltin
+                  ? <button onClick={resetPreset} className="text-[10px] uppercase tracking-wider px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10 ms-auto">{t.settings.reset}</button>
+                  : <button onClick={deletePreset} className="text-[10px] uppercase tracking-wider px-3 py-1 rounded-lg bg-red-500/20 text-red-300 hover:bg-red-500/30 ms-auto">{t.settings.delete}</button>}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <div className={labelClass}>{t.settings.frames}</div>
+          <label className="flex items-center justify-between text-xs gap-3">
+            <span className="text-gray-300">{t.settings.interval}</span>
+            <input type="range" aria-label={t.settings.interval} min={250} max={5000} step={250} value={draft.media.frameIntervalMs} onChange={e => updateMedia({ frameIntervalMs: Number(e.target.value) })} className="flex-1" />
+            <span className="w-14 text-end font-mono">{draft.media.frameIntervalMs} ms</span>
+          </label>
+          <label className="flex items-center justify-between text-xs gap-3">
+            <span className="text-gray-300">{t.settings.jpegQuality}</span>
+            <input type="range" aria-label={t.settings.jpegQuality} min={0.1} max={1} step={0.05} value={draft.media.jpegQuality} onChange={e => updateMedia({ jpegQuality: Number(e.target.value) })} className="flex-1" />
+            <span className="w-14 text-end font-mono">{draft.media.jpegQuality.toFixed(2)}</span>
+          </label>
+          <select aria-label={t.settings.resolution} value={resolution} onChange={e => { const [width, height] = e.target.value.split('x').map(Number); updateMedia({ width, height }); }} className={fieldClass}>
+            {RESOLUTION_OPTIONS.map(r => <option key={`${r.width}x${r.height}`} value={`${r.width}x${r.height}`}>{r.width} × {r.height}</option>)}
+          </select>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <div className={labelClass}>{t.settings.policy}</div>
+          <label className="text-xs text-gray-300 flex flex-col gap-1">
+            {t.settings.allowedApps}
+            <input defaultValue={draft.policy.allowedApplications.join(', ')} key={`allow-${isOpen}`} onBlur={e => updatePolicy({ allowedApplications: parseList(e.target.value) })} placeholder="Safari, Mail" className={fieldClass} />
+          </label>
+          <label className="text-xs text-gray-300 flex flex-col gap-1">
+            {t.settings.blockedApps}
+            <input defaultValue={draft.policy.deniedApplications.join(', ')} key={`deny-${isOpen}`} onBlur={e => updatePolicy({ deniedApplications: parseList(e.target.value) })} className={fieldClass} />
+          </label>
+          <div className="text-xs text-gray-300">{t.settings.confirmBefore}</div>
+          <div className="flex flex-wrap gap-2">
+            {CONFIRMABLE_ACTIONS.map(action => (
+              <button key={action} onClick={() => toggleConfirm(action)} aria-pressed={draft.policy.confirmActions.includes(action)} className={`text-[10px] px-3 py-1 rounded-lg ${draft.policy.confirmActions.includes(action) ? 'bg-amber-500/30 text-amber-200' : 'bg-white/5 hover:bg-white/10'}`}>{t.commandActions[action]}</button>
+            ))}
+          </div>
+          <label className="flex items-center justify-between text-xs gap-3">
+            <span className="text-gray-300">{t.settings.maxClicks(draft.policy.clickWindowMs / 1000)}</span>
+            <input type="number" min={1} max={100} value={draft.policy.maxClicksPerWindow} onChange={e => updatePolicy({ maxClicksPerWindow: Math.max(1, Number(e.target.value) || 1) })} className={`${fieldClass} w-20`} />
+          </label>
+        </div>
+      </div>
+
+      <div className="px-6 py-4 border-t border-white/5 flex items-center gap-2">
+        <button onClick={() => setDraft({ ...DEFAULT_SETTINGS, locale: draft.locale, voiceName: localeInfo(draft.locale).voiceName })} className="text-[10px] uppercase tracking-wider px-3 py-2 rounded-xl bg-white/5 hover:bg-white/10">{t.settings.defaults}</button>
+        <div className="flex-1 text-[10px] text-gray-500 text-end">{isSessionActive ? t.settings.restartNote : ''}</div>
+        <button onClick={() => onSave(draft)} className="text-[10px] uppercase tracking-wider px-4 py-2 rounded-xl bg-blue-500 hover:bg-blue-400 font-bold">{t.settings.save}</button>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsDrawer;
@@ -0,0 +1,45 @@
+import React, { useEffect, useState } from 'react';
+import { FrameTarget } from '../types';
+import { frameToElement } from '../utils/grounding';
+
+interface TargetOverlayProps {
+  target: FrameTarget | null;
+  videoRef: React.RefObject<HTMLVideoElement>;
+  isPending: boolean;
+}
+
+const TargetOverlay: React.FC<TargetOverlayProps> = ({ target, videoRef, isPending }) => {
+  const [size, setSize] = useState({ video: { width: 0, height: 0 }, element: { width: 0, height: 0 } });
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !target) return;
+    setSize({
+      video: { width: video.videoWidth, height: video.videoHeight },
+      element: { width: video.clientWidth, height: video.clientHeight },
+    });
+  }, [target, videoRef]);
+
+  if (!target || !size.video.width) return null;
+
+  const point = frameToElement(target, size.video, size.element);
+  let boxStyle: React.CSSProperties | null = null;
+  if (target.box) {
+    const topLeft = frameToElement({ x: target.box.xmin, y: target.box.ymin }, size.video, size.element);
+    const bottomRight = frameToElement({ x: target.box.xmax, y: target.box.ymax }, size.video, size.element);
+    boxStyle = { left: topLeft.x, top: topLeft.y, width: bottomRight.x - topLeft.x, height: bottomRight.y - topLeft.y };
+  }
+
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      {boxStyle && <div className="absolute border-2 border-cyan-400 rounded-md bg-cyan-400/10" style={boxStyle} />}
+      <div className={`absolute w-4 h-4 -ml-2 -mt-2 rounded-full border-2 border-cyan-300 ${isPending ? 'animate-ping' : ''}`} style={{ left: point.x, top: point.y }} />
+      <div className="absolute w-1.5 h-1.5 -ml-[3px] -mt-[3px] rounded-full bg-cyan-300" style={{ left: point.x, top: point.y }} />
+      {target.label && (
+        <div className="absolute bottom-2 left-1/2 -translate-x-1/2 bg-black/70 text-cyan-200 text-[10px] px-2 py-0.5 rounded-full whitespace-nowrap">{target.label}</div>
+      )}
+    </div>
+  );
+};
+
+export default TargetOverlay;
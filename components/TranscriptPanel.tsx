@@ -0,0 +1,40 @@
+import React, { useEffect, useRef } from 'react';
+import { LocaleCode, TranscriptionEntry } from '../types';
+import { Messages } from '../utils/i18n';
+
+interface TranscriptPanelProps {
+  entries: TranscriptionEntry[];
+  isOpen: boolean;
+  locale: LocaleCode;
+  messages: Messages;
+}
+
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ entries, isOpen, locale, messages }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Follow new text unless the user scrolled up to read earlier turns.
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    if (el.scrollHeight - el.scrollTop - el.clientHeight < 80) el.scrollTop = el.scrollHeight;
+  }, [entries]);
+
+  return (
+    <div role="region" aria-label={messages.transcript.title} inert={!isOpen} className={`fixed bottom-10 start-10 w-80 max-h-[50vh] bg-[#1a1d23] rounded-3xl shadow-2xl border border-white/5 flex flex-col transition-all duration-500 ${isOpen ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4 pointer-events-none'}`}>
+      <div className="px-5 pt-4 pb-2 text-[10px] font-bold uppercase tracking-widest text-gray-400">{messages.transcript.title}</div>
+      <div ref={scrollRef} role="log" aria-live="off" className="custom-scrollbar overflow-y-auto px-5 pb-4 flex flex-col gap-3">
+        {entries.length === 0 && <div className="text-gray-500 text-xs">{messages.transcript.empty}</div>}
+        {entries.map((entry, i) => (
+          <div key={`${entry.timestamp}-${i}`} className={`flex flex-col ${entry.role === 'user' ? 'items-end' : 'items-start'}`}>
+            <div className={`rounded-2xl px-3 py-2 text-xs leading-relaxed max-w-[90%] ${entry.role === 'user' ? 'bg-blue-500/20 text-blue-100' : 'bg-white/5 text-gray-100'} ${entry.complete ? '' : 'opacity-80'}`}>
+              {entry.text}
+            </div>
+            <div className="text-[9px] text-gray-500 mt-1">{new Date(entry.timestamp).toLocaleTimeString(locale)}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptPanel;
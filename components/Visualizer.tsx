@@ -1,14 +1,32 @@
 import React, { useEffect, useRef } from 'react';
+import { AudioAnalysers } from '../types';
 
 interface VisualizerProps {
+  analysers: React.RefObject<AudioAnalysers | null>;
   isActive: boolean;
-  isUserTalking: boolean;
-  isModelTalking: boolean;
   isMuted?: boolean;
 }
 
-const Visualizer: React.FC<VisualizerProps> = ({ isActive, isUserTalking, isModelTalking, isMuted }) => {
+const USER_COLOR = '#4ade80';
+const MODEL_COLOR = '#60a5fa';
+const MUTED_COLOR = '#ef4444';
+const IDLE_COLOR = '#334155';
+// Speech rarely peaks near full scale; boost the trace so normal levels fill the canvas.
+const TRACE_GAIN = 3;
+// Reduced motion swaps the waveform for slowly updated level bars.
+const REDUCED_MOTION_INTERVAL_MS = 250;
+
+const rmsOf = (samples: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / samples.length);
+};
+
+const Visualizer: React.FC<VisualizerProps> = ({ analysers, isActive, isMuted }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Read by the animation loop so prop changes don't restart it.
+  const propsRef = useRef({ isActive, isMuted });
+  propsRef.current = { isActive, isMuted };
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -16,75 +34,106 @@ const Visualizer: React.FC<VisualizerProps> = ({ isActive, isUserTalking, isMode
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    let animationId: number;
-    let offset = 0;
+    const motionQuery = window.matchMedia('(prefers-reduced-motion: reduce)');
+    const buffers = new Map<AnalyserNode, Float32Array>();
+    let animationId = 0;
+    let timer = 0;
 
-    const render = () => {
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      
-      const width = canvas.width;
-      const height = canvas.height;
+    const read = (analyser: AnalyserNode | undefined) => {
+      if (!analyser) return null;
+      let buffer = buffers.get(analyser);
+      if (!buffer || buffer.length !== analyser.fftSize) {
+        buffer = new Float32Array(analyser.fftSize);
+        buffers.set(analyser, buffer);
+      }
+      analyser.getFloatTimeDomainData(buffer);
+      return buffer;
+    };
+
+    const flatLine = (color: string, lineWidth: number) => {
+      ctx.beginPath();
+      ctx.lineWidth = lineWidth;
+      ctx.strokeStyle = color;
+      ctx.shadowBlur = 0;
+      ctx.moveTo(0, canvas.height / 2);
+      ctx.lineTo(canvas.width, canvas.height / 2);
+      ctx.stroke();
+    };
+
+    const trace = (samples: Float32Array, color: string) => {
+      const { width, height } = canvas;
       const centerY = height / 2;
-      
-      offset += 0.15;
-
-      if (isActive) {
-        ctx.beginPath();
-        ctx.lineWidth = 1.5;
-        
-        if (isMuted) {
-          ctx.strokeStyle = '#ef4444'; // Red for muted
-          ctx.shadowBlur = 2;
-          ctx.shadowColor = '#ef4444';
-          ctx.moveTo(0, centerY);
-          ctx.lineTo(width, centerY);
-        } else {
-          ctx.strokeStyle = '#4ade80';
-          ctx.shadowBlur = (isUserTalking || isModelTalking) ? 6 : 0;
-          ctx.shadowColor = '#4ade80';
-          
-          for (let x = 0; x <= width; x += 1) {
-            let amplitude = 0;
-            if (isUserTalking || isModelTalking) {
-              const baseAmp = isUserTalking ? 6 : 4;
-              amplitude = Math.sin(x * 0.12 + offset) * baseAmp;
-              amplitude += Math.sin(x * 0.2 - offset) * (baseAmp / 3);
-            } else {
-              // Idle subtle ripple
-              amplitude = Math.sin(x * 0.05 + offset) * 0.5;
-            }
-
-            const y = centerY + amplitude;
-            if (x === 0) ctx.moveTo(x, y);
-            else ctx.lineTo(x, y);
-          }
-        }
-        ctx.stroke();
-      } else {
-        // Simple dim horizontal line when inactive
-        ctx.beginPath();
-        ctx.lineWidth = 1;
-        ctx.strokeStyle = '#334155';
-        ctx.moveTo(0, centerY);
-        ctx.lineTo(width, centerY);
-        ctx.stroke();
+      ctx.beginPath();
+      ctx.lineWidth = 1.5;
+      ctx.strokeStyle = color;
+      ctx.shadowColor = color;
+      ctx.shadowBlur = Math.min(8, rmsOf(samples) * 80);
+      for (let x = 0; x <= width; x++) {
+        const sample = samples[Math.min(samples.length - 1, Math.floor((x / width) * samples.length))];
+        const y = centerY + Math.max(-1, Math.min(1, sample * TRACE_GAIN)) * centerY;
+        if (x === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
       }
-      
-      animationId = requestAnimationFrame(render);
+      ctx.stroke();
+    };
+
+    const levelBar = (samples: Float32Array | null, color: string, y: number) => {
+      const level = samples ? Math.min(1, rmsOf(samples) * TRACE_GAIN * 2) : 0;
+      ctx.fillStyle = IDLE_COLOR;
+      ctx.fillRect(0, y, canvas.width, 3);
+      ctx.fillStyle = color;
+      ctx.fillRect(0, y, canvas.width * level, 3);
     };
 
-    render();
-    return () => cancelAnimationFrame(animationId);
-  }, [isActive, isUserTalking, isModelTalking, isMuted]);
+    const draw = () => {
+      const { isActive, isMuted } = propsRef.current;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      if (!isActive) return flatLine(IDLE_COLOR, 1);
+
+      const output = read(analysers.current?.output);
+      const input = isMuted ? null : read(analysers.current?.input);
+      if (motionQuery.matches) {
+        levelBar(input, isMuted ? MUTED_COLOR : USER_COLOR, canvas.height / 2 - 5);
+        levelBar(output, MODEL_COLOR, canvas.height / 2 + 2);
+        return;
+      }
+      if (output) trace(output, MODEL_COLOR);
+      if (input) trace(input, USER_COLOR);
+      else flatLine(isMuted ? MUTED_COLOR : USER_COLOR, 1.5);
+    };
+
+    const stop = () => {
+      cancelAnimationFrame(animationId);
+      clearTimeout(timer);
+    };
+    const tick = () => {
+      draw();
+      if (motionQuery.matches) timer = window.setTimeout(tick, REDUCED_MOTION_INTERVAL_MS);
+      else animationId = requestAnimationFrame(tick);
+    };
+    const start = () => {
+      stop();
+      if (!document.hidden) tick();
+    };
+
+    document.addEventListener('visibilitychange', start);
+    motionQuery.addEventListener('change', start);
+    start();
+    return () => {
+      stop();
+      document.removeEventListener('visibilitychange', start);
+      motionQuery.removeEventListener('change', start);
+    };
+  }, [analysers]);
 
   return (
-    <canvas 
-      ref={canvasRef} 
-      width={120} 
-      height={24} 
+    <canvas
+      ref={canvasRef}
+      width={120}
+      height={24}
       className="transition-all duration-300"
     />
   );
 };
 
-export default Visualizer;
\ No newline at end of file
+export default Visualizer;
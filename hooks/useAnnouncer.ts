@@ -0,0 +1,18 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// Text for a visually hidden aria-live region. The region is emptied before each message so
+// screen readers read a repeated message ("Muted" twice in a row) again.
+export function useAnnouncer() {
+  const [message, setMessage] = useState('');
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const announce = useCallback((text: string) => {
+    if (timerRef.current !== null) clearTimeout(timerRef.current);
+    setMessage('');
+    timerRef.current = setTimeout(() => setMessage(text), 50);
+  }, []);
+
+  useEffect(() => () => { if (timerRef.current !== null) clearTimeout(timerRef.current); }, []);
+
+  return { message, announce };
+}
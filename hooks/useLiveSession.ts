@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AudioAnalysers, DeviceSelection, TranscriptionEntry } from '../types';
+import { LiveSessionController, SessionState } from '../utils/live-session';
+import { LiveTransport, genaiTransport } from '../utils/live-transport';
+import { LiveSetup } from '../utils/handover';
+import { ToolRegistry } from '../utils/tool-registry';
+import { startAudioCapture, AudioCapture, CAPTURE_SAMPLE_RATE } from '../utils/audio-capture';
+import { AudioPlayback } from '../utils/audio-playback';
+import { openMicrophone, routeOutput } from '../utils/devices';
+import { saveSession } from '../utils/session-history';
+
+export interface LiveSessionOptions {
+  transport?: LiveTransport;
+  // Read when a session starts, so the latest selection is used without re-creating the hook.
+  devices: () => DeviceSelection;
+  // Called whenever the microphone stream is replaced, e.g. so a recording can follow it.
+  onMicrophone?: (stream: MediaStream) => void;
+}
+
+const saveRecord = (record: Parameters<typeof saveSession>[0]) =>
+  saveSession(record).catch(err => console.warn('Could not save session history', err));
+
+// Binds a LiveSessionController to the browser: microphone capture, model audio playback and React state.
+export function useLiveSession({ transport = genaiTransport, devices, onMicrophone }: LiveSessionOptions) {
+  const [controller] = useState(() => new LiveSessionController(transport, { saveRecord }));
+  const [state, setState] = useState<SessionState>(() => controller.getState());
+  const [transcript, setTranscript] = useState<TranscriptionEntry[]>([]);
+
+  const audioContextRef = useRef<{ input: AudioContext; output: AudioContext } | null>(null);
+  const analysersRef = useRef<AudioAnalysers | null>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
+  const micStreamRef = useRef<MediaStream | null>(null);
+  const playbackRef = useRef<AudioPlayback | null>(null);
+  // Bumped when a session starts or ends so late async work from an old one is discarded.
+  const runRef = useRef(0);
+  const micSwapRef = useRef(0);
+  const optionsRef = useRef({ devices, onMicrophone });
+  optionsRef.current = { devices, onMicrophone };
+
+  const beginCapture = useCallback(async () => {
+    const run = runRef.current;
+    const ctx = audioContextRef.current?.input;
+    const mic = micStreamRef.current;
+    if (!ctx || !mic) return;
+    const capture = await startAudioCapture(ctx, mic, frame => controller.pushAudio(frame, CAPTURE_SAMPLE_RATE));
+    if (run !== runRef.current || captureRef.current) { capture.stop(); return; }
+    captureRef.current = capture;
+    capture.source.connect(analysersRef.current.input);
+  }, [controller]);
+
+  // Replaces the microphone under a running session; the Live connection and input gating carry over.
+  const swapMicrophone = useCallback(async (deviceId: string) => {
+    const run = runRef.current;
+    const swap = ++micSwapRef.current;
+    const mic = await openMicrophone(deviceId);
+    if (run !== runRef.current || swap !== micSwapRef.current || !micStreamRef.current) { mic.getTracks().forEach(t => t.stop()); return; }
+    const previous = micStreamRef.current;
+    micStreamRef.current = mic;
+    watchMicrophone(mic);
+    optionsRef.current.onMicrophone?.(mic);
+    // Before the connection opens there is no capture yet; 'ready' picks up the new stream.
+    if (captureRef.current) {
+      captureRef.current.stop();
+      captureRef.current = null;
+      await beginCapture();
+    }
+    previous.getTracks().forEach(t => t.stop());
+  }, [beginCapture]);
+
+  // An unplugged or revoked microphone ends its track; carry on with the default one.
+  const watchMicrophone = (mic: MediaStream) => {
+    mic.getAudioTracks()[0]?.addEventListener('ended', () => {
+      if (micStreamRef.current !== mic) return;
+      swapMicrophone('').catch(err => controller.fail(`Microphone disconnected: ${err?.message ?? err}`));
+    });
+  };
+
+  const prepare = useCallback(async () => {
+    const run = runRef.current;
+    if (!navigator.onLine) throw new Error("You're offline. Connect to the internet to start a session.");
+    if (!navigator.mediaDevices?.getUserMedia) throw new Error('Microphone access is not available in this browser');
+    if (!audioContextRef.current) {
+      audioContextRef.current = {
+        // Capture runs at the device's native rate; the worklet resamples to 16 kHz.
+        input: new (window.AudioContext || (window as any).webkitAudioContext)(),
+        output: new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 }),
+      };
+      const { input, output } = audioContextRef.current;
+      analysersRef.current = { input: input.createAnalyser(), output: output.createAnalyser() };
+      // Model audio plays through the output analyser; the input one only taps the mic.
+      analysersRef.current.output.connect(output.destination);
+    }
+    const { input: inputCtx, output: outputCtx } = audioContextRef.current;
+    await inputCtx.resume();
+    await outputCtx.resume();
+    playbackRef.current ??= await AudioPlayback.create(outputCtx, analysersRef.current.output);
+    const { audioInputId, audioOutputId } = optionsRef.current.devices();
+    routeOutput(outputCtx, audioOutputId).catch(err => console.warn('Could not select the speaker:', err));
+    const mic = await openMicrophone(audioInputId);
+    if (run !== runRef.current) { mic.getTracks().forEach(t => t.stop()); return; }
+    micStreamRef.current = mic;
+    watchMicrophone(mic);
+    optionsRef.current.onMicrophone?.(mic);
+  }, []);
+
+  const start = useCallback(async (setup: LiveSetup, tools: ToolRegistry) => {
+    // A second start would orphan the first one's microphone.
+    if (controller.isActive) return;
+    runRef.current++;
+    return controller.start(setup, tools, prepare);
+  }, [controller, prepare]);
+
+  const stop = useCallback(() => controller.stop(), [controller]);
+
+  useEffect(() => {
+    const unsubscribe = [
+      controller.on('state', setState),
+      controller.on('transcript', setTranscript),
+      controller.on('audio', (data, mimeType) => playbackRef.current?.enqueue(data, mimeType)),
+      controller.on('interrupted', () => playbackRef.current?.interrupt()),
+      controller.on('turnComplete', () => playbackRef.current?.endTurn()),
+      // Barge-in: keep the model audible but quieter while the user talks over it.
+      controller.on('speech', speaking => playbackRef.current?.duck(speaking)),
+      controller.on('ready', () => {
+        beginCapture().catch(err => controller.fail(`Microphone capture failed: ${err?.message ?? err}`));
+      }),
+      controller.on('end', () => {
+        runRef.current++;
+        micSwapRef.current++;
+        captureRef.current?.stop();
+        captureRef.current = null;
+        micStreamRef.current?.getTracks().forEach(t => t.stop());
+        micStreamRef.current = null;
+        playbackRef.current?.interrupt();
+        playbackRef.current?.duck(false);
+      }),
+    ];
+    return () => unsubscribe.forEach(off => off());
+  }, [controller, beginCapture]);
+
+  useEffect(() => () => controller.stop(), [controller]);
+
+  return { controller, state, transcript, start, stop, swapMicrophone, audioContextRef, analysersRef, micStreamRef, playbackRef };
+}
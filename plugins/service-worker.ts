@@ -0,0 +1,46 @@
+import { createHash } from 'crypto';
+import { readFileSync, readdirSync, statSync } from 'fs';
+import path from 'path';
+import type { Plugin } from 'vite';
+
+// Files in public/ are copied as-is and never appear in the bundle, so they are listed from disk.
+function listPublicFiles(dir: string, base = dir): string[] {
+  return readdirSync(dir).flatMap(name => {
+    const file = path.join(dir, name);
+    if (statSync(file).isDirectory()) return listPublicFiles(file, base);
+    return [path.relative(base, file).split(path.sep).join('/')];
+  });
+}
+
+// Emits sw.js from the template with every build output precached and a cache version derived from the file hashes.
+export function serviceWorker(templatePath: string): Plugin {
+  let publicDir = '';
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    // After Vite's own plugins, so index.html is already in the bundle.
+    enforce: 'post',
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    generateBundle(_options, bundle) {
+      const files = [
+        ...Object.keys(bundle),
+        ...(publicDir ? listPublicFiles(publicDir) : []),
+      ].filter(file => !file.endsWith('.map') && !file.startsWith('.vite/'));
+
+      const hash = createHash('sha256');
+      for (const output of Object.values(bundle)) {
+        hash.update(output.fileName);
+        hash.update(output.type === 'chunk' ? output.code : output.source);
+      }
+      const version = hash.digest('hex').slice(0, 12);
+      const urls = ['/', ...files.map(file => `/${file}`)];
+
+      const source = readFileSync(templatePath, 'utf8')
+        .replace('self.__CACHE_VERSION__', JSON.stringify(version))
+        .replace('self.__PRECACHE_URLS__', JSON.stringify(urls, null, 2));
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+    },
+  };
+}
@@ -0,0 +1,55 @@
+import { WebSocketServer } from 'ws';
+import { validateMouseCommand } from '../utils/mouse-commands';
+import { ActionPolicy, DEFAULT_POLICY } from '../utils/action-policy';
+import { createOsDriver, LoggingDriver, OsDriver } from './os-driver';
+import { appOrigins, isAppOrigin } from './origin';
+
+const PORT = Number(process.env.BRIDGE_PORT || 8765);
+const DRY_RUN = process.argv.includes('--dry-run');
+
+const list = (value: string | undefined, fallback: string[]) =>
+  value === undefined ? fallback : value.split(',').map(item => item.trim()).filter(Boolean);
+
+// Only the app itself may drive the pointer; other local pages and clients without an Origin are refused.
+const ALLOWED_ORIGINS = appOrigins(process.env.APP_ORIGINS);
+
+// The browser applies the full action policy; the bridge repeats the application lists so a client that skips it
+// still cannot launch a blocked program. Confirmations and click limits stay in the app, which knows the user's settings.
+const policy = new ActionPolicy({
+  ...DEFAULT_POLICY,
+  allowedApplications: list(process.env.BRIDGE_ALLOWED_APPS, DEFAULT_POLICY.allowedApplications),
+  deniedApplications: list(process.env.BRIDGE_BLOCKED_APPS, DEFAULT_POLICY.deniedApplications),
+  confirmActions: [],
+  maxClicksPerWindow: Infinity,
+});
+
+function startBridge(driver: OsDriver, port = PORT) {
+  const server = new WebSocketServer({
+    host: '127.0.0.1',
+    port,
+    verifyClient: ({ origin }: { origin?: string }) => isAppOrigin(origin, ALLOWED_ORIGINS),
+  });
+
+  server.on('connection', (socket) => {
+    socket.on('message', async (raw) => {
+      let id = '';
+      try {
+        const message = JSON.parse(raw.toString());
+        id = String(message.id ?? '');
+        const { ok, command, error } = validateMouseCommand(message.command);
+        if (!ok) throw new Error(error);
+        const decision = policy.evaluate(command);
+        if (decision.verdict === 'deny') throw new Error(decision.reason);
+        await driver.perform(command);
+        socket.send(JSON.stringify({ id, ok: true }));
+      } catch (err) {
+        socket.send(JSON.stringify({ id, ok: false, error: (err as Error).message }));
+      }
+    });
+  });
+
+  return server;
+}
+
+startBridge(DRY_RUN ? new LoggingDriver() : createOsDriver());
+console.log(`Executor bridge listening on ws://127.0.0.1:${PORT}${DRY_RUN ? ' (dry run)' : ''}, accepting ${ALLOWED_ORIGINS.join(', ')}`);
@@ -0,0 +1,28 @@
+// Socket addresses that only this machine can use.
+const LOOPBACK_ADDRESSES = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+
+// Where the app is served: the Vite dev server, by either loopback name.
+const DEFAULT_APP_ORIGINS = ['http://localhost:3000', 'http://127.0.0.1:3000'];
+
+const originOf = (url: string) => {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+};
+
+// The origins the local servers accept: APP_ORIGINS as a comma-separated list, or the dev server.
+export const appOrigins = (value?: string): string[] =>
+  value === undefined
+    ? DEFAULT_APP_ORIGINS
+    : value.split(',').map(item => originOf(item.trim())).filter((origin): origin is string => !!origin);
+
+// True only for pages served by the app. Browsers always send Origin on POST and WebSocket requests, so a missing
+// header means the caller is not a page; other local pages (another dev server, a file:// page) are refused too.
+export const isAppOrigin = (origin: string | undefined, allowed: string[]) => {
+  const actual = origin && originOf(origin);
+  return !!actual && allowed.includes(actual);
+};
+
+export const isLoopbackAddress = (address?: string) => LOOPBACK_ADDRESSES.includes(address ?? '');
@@ -0,0 +1,245 @@
+import { execFile, spawn } from 'child_process';
+import { MouseCommand } from '../types';
+
+export interface OsDriver {
+  perform(command: MouseCommand): Promise<void>;
+}
+
+// `env` adds variables for the child, so untrusted values can reach a script without being spliced into it.
+const run = (file: string, args: string[], env?: Record<string, string>) =>
+  new Promise<void>((resolve, reject) => {
+    execFile(file, args, { timeout: 4000, env: env && { ...process.env, ...env } }, (err, _stdout, stderr) => {
+      if (err) reject(new Error(stderr.trim() || err.message));
+      else resolve();
+    });
+  });
+
+const launch = (file: string, args: string[]) =>
+  new Promise<void>((resolve, reject) => {
+    const child = spawn(file, args, { detached: true, stdio: 'ignore' });
+    child.once('error', reject);
+    child.once('spawn', () => {
+      child.unref();
+      resolve();
+    });
+  });
+
+type Point = { x: number; y: number };
+
+// Screen points are relative to the shared monitor, while the OS tools use global desktop coordinates. When the shared
+// monitor is not the primary one, BRIDGE_SCREEN_OFFSET="x,y" gives its top-left corner on the desktop (may be negative).
+const screenOffset = (value = process.env.BRIDGE_SCREEN_OFFSET): Point => {
+  const [x, y] = (value ?? '').split(',').map(Number);
+  return Number.isFinite(x) && Number.isFinite(y) ? { x, y } : { x: 0, y: 0 };
+};
+
+const toDesktop = (point: Point, offset: Point, scale = 1): Point => ({
+  x: Math.round(point.x / scale) + offset.x,
+  y: Math.round(point.y / scale) + offset.y,
+});
+
+// X11 wheel events are discrete; this is roughly one step in most toolkits.
+const PIXELS_PER_SCROLL_STEP = 40;
+
+const XDOTOOL_KEYS: Record<string, string> = {
+  meta: 'super', enter: 'Return', tab: 'Tab', escape: 'Escape', backspace: 'BackSpace', delete: 'Delete', insert: 'Insert',
+  up: 'Up', down: 'Down', left: 'Left', right: 'Right', home: 'Home', end: 'End', pageup: 'Prior', pagedown: 'Next',
+};
+
+const CLICLICK_MODIFIERS: Record<string, string> = { ctrl: 'ctrl', alt: 'alt', shift: 'shift', meta: 'cmd' };
+const CLICLICK_KEYS: Record<string, string> = {
+  enter: 'return', tab: 'tab', escape: 'esc', space: 'space', backspace: 'delete', delete: 'fwd-delete',
+  up: 'arrow-up', down: 'arrow-down', left: 'arrow-left', right: 'arrow-right',
+  home: 'home', end: 'end', pageup: 'page-up', pagedown: 'page-down',
+};
+
+// cliclick can't scroll, so the Mac driver posts a Quartz scroll event from JavaScript for Automation.
+// CGEventCreateScrollWheelEvent2 is the non-variadic variant, which the JXA bridge can call.
+const macScrollScript = (pixels: boolean, vertical: number, horizontal: number) => `ObjC.import('CoreGraphics');
+$.CGEventPost($.kCGHIDEventTap, $.CGEventCreateScrollWheelEvent2(null, ${pixels ? 0 : 1}, 2, ${vertical}, ${horizontal}, 0));`;
+
+const WIN_VIRTUAL_KEYS: Record<string, number> = {
+  ctrl: 0x11, alt: 0x12, shift: 0x10, meta: 0x5b, enter: 0x0d, tab: 0x09, escape: 0x1b, space: 0x20,
+  backspace: 0x08, delete: 0x2e, insert: 0x2d, up: 0x26, down: 0x28, left: 0x25, right: 0x27,
+  home: 0x24, end: 0x23, pageup: 0x21, pagedown: 0x22,
+};
+
+const winVirtualKey = (key: string) => {
+  if (WIN_VIRTUAL_KEYS[key]) return WIN_VIRTUAL_KEYS[key];
+  if (/^f\d+$/.test(key)) return 0x6f + Number(key.slice(1));
+  return key.toUpperCase().charCodeAt(0);
+};
+
+const moveDelta = ({ direction, value }: MouseCommand): [number, number] => {
+  switch (direction) {
+    case 'up': return [0, -value];
+    case 'down': return [0, value];
+    case 'left': return [-value, 0];
+    case 'right': return [value, 0];
+    default: return [0, 0];
+  }
+};
+
+// Linux (X11) via xdotool.
+class XdotoolDriver implements OsDriver {
+  constructor(private offset = screenOffset()) {}
+
+  async perform(command: MouseCommand) {
+    const { screenPoint } = command;
+    if (screenPoint) {
+      const { x, y } = toDesktop(screenPoint, this.offset);
+      await run('xdotool', ['mousemove', String(x), String(y)]);
+    }
+    switch (command.action) {
+      case 'move': {
+        if (screenPoint) return;
+        const [dx, dy] = moveDelta(command);
+        return run('xdotool', ['mousemove_relative', '--', String(dx), String(dy)]);
+      }
+      case 'left_click': return run('xdotool', ['click', '1']);
+      case 'right_click': return run('xdotool', ['click', '3']);
+      case 'double_click': return run('xdotool', ['click', '--repeat', '2', '1']);
+      case 'mouse_down': return run('xdotool', ['mousedown', command.button === 'right' ? '3' : '1']);
+      case 'mouse_up': return run('xdotool', ['mouseup', command.button === 'right' ? '3' : '1']);
+      case 'scroll': {
+        const button = { up: '4', down: '5', left: '6', right: '7', '': '5' }[command.direction];
+        const steps = command.unit === 'pixels' ? Math.round(command.value / PIXELS_PER_SCROLL_STEP) : command.value;
+        return run('xdotool', ['click', '--repeat', String(Math.max(1, steps)), button]);
+      }
+      case 'type_text': return run('xdotool', ['type', '--delay', '12', '--', command.text ?? '']);
+      case 'key_combo': {
+        const combo = (command.keys ?? []).map(k => XDOTOOL_KEYS[k] ?? (/^f\d+$/.test(k) ? k.toUpperCase() : k)).join('+');
+        return run('xdotool', ['key', '--repeat', String(Math.max(1, command.value)), '--delay', '50', combo]);
+      }
+      case 'open': return launch(command.application, []);
+      case 'none': return;
+    }
+  }
+}
+
+// macOS via cliclick, `open -a` and a JXA scroll event. Note cliclick works in points, so Retina captures need
+// the bridge scale; the offset is in points too.
+class MacDriver implements OsDriver {
+  constructor(private scale = Number(process.env.BRIDGE_SCREEN_SCALE || 1), private offset = screenOffset()) {}
+
+  async perform(command: MouseCommand) {
+    const { screenPoint } = command;
+    if (screenPoint) {
+      const { x, y } = toDesktop(screenPoint, this.offset, this.scale);
+      await run('cliclick', [`m:${x},${y}`]);
+    }
+    switch (command.action) {
+      case 'move': {
+        if (screenPoint) return;
+        const [dx, dy] = moveDelta(command);
+        const signed = (n: number) => (n < 0 ? String(n) : `+${n}`);
+        return run('cliclick', [`m:${signed(dx)},${signed(dy)}`]);
+      }
+      case 'left_click': return run('cliclick', ['c:.']);
+      case 'right_click': return run('cliclick', ['rc:.']);
+      case 'double_click': return run('cliclick', ['dc:.']);
+      case 'mouse_down':
+      case 'mouse_up':
+        if (command.button === 'right') throw new Error('Holding the right button is not supported by the macOS driver');
+        return run('cliclick', [command.action === 'mouse_down' ? 'dd:.' : 'du:.']);
+      case 'scroll': {
+        // Positive wheel values scroll up and left.
+        const amount = Math.max(1, command.value);
+        const vertical = command.direction === 'up' ? amount : command.direction === 'down' || !command.direction ? -amount : 0;
+        const horizontal = command.direction === 'left' ? amount : command.direction === 'right' ? -amount : 0;
+        return run('osascript', ['-l', 'JavaScript', '-e', macScrollScript(command.unit === 'pixels', vertical, horizontal)]);
+      }
+      case 'type_text': return run('cliclick', [`t:${command.text ?? ''}`]);
+      case 'key_combo': {
+        const keys = command.keys ?? [];
+        const modifiers = keys.filter(k => CLICLICK_MODIFIERS[k]).map(k => CLICLICK_MODIFIERS[k]);
+        const key = keys[keys.length - 1];
+        if (key === 'insert') throw new Error('Insert is not available on macOS');
+        const press = (CLICLICK_KEYS[key] || /^f\d+$/.test(key)) ? `kp:${CLICLICK_KEYS[key] ?? key}` : `t:${key}`;
+        const presses = Array.from({ length: Math.max(1, command.value) }, () => press);
+        return run('cliclick', modifiers.length ? [`kd:${modifiers.join(',')}`, ...presses, `ku:${modifiers.join(',')}`] : presses);
+      }
+      case 'open': return run('open', ['-a', command.application]);
+      case 'none': return;
+    }
+  }
+}
+
+const WIN_MOUSE_PRELUDE = `Add-Type -AssemblyName System.Windows.Forms
+Add-Type -Namespace W -Name M -MemberDefinition '[DllImport("user32.dll")] public static extern void mouse_event(int f, int x, int y, int d, int e); [DllImport("user32.dll")] public static extern void keybd_event(byte k, byte s, int f, int e);'`;
+
+// SendKeys treats these as syntax; braces make them literal. The result reaches PowerShell through the
+// environment rather than the script body, so no quoting is needed.
+const sendKeysLiteral = (text: string) =>
+  text
+    .replace(/[+^%~(){}[\]]/g, ch => `{${ch}}`)
+    .replace(/\r?\n/g, '{ENTER}')
+    .replace(/\t/g, '{TAB}');
+
+// Windows via PowerShell and user32 mouse_event.
+class WindowsDriver implements OsDriver {
+  constructor(private offset = screenOffset()) {}
+
+  private ps(script: string, env?: Record<string, string>) {
+    return run('powershell.exe', ['-NoProfile', '-NonInteractive', '-Command', `${WIN_MOUSE_PRELUDE}\n${script}`], env);
+  }
+
+  async perform(command: MouseCommand) {
+    const { screenPoint } = command;
+    if (screenPoint) {
+      const { x, y } = toDesktop(screenPoint, this.offset);
+      await this.ps(`[System.Windows.Forms.Cursor]::Position = New-Object System.Drawing.Point(${x}, ${y})`);
+    }
+    switch (command.action) {
+      case 'move': {
+        if (screenPoint) return;
+        const [dx, dy] = moveDelta(command);
+        return this.ps(`$p = [System.Windows.Forms.Cursor]::Position
+[System.Windows.Forms.Cursor]::Position = New-Object System.Drawing.Point(($p.X + ${dx}), ($p.Y + ${dy}))`);
+      }
+      case 'left_click': return this.ps('[W.M]::mouse_event(0x02,0,0,0,0); [W.M]::mouse_event(0x04,0,0,0,0)');
+      case 'right_click': return this.ps('[W.M]::mouse_event(0x08,0,0,0,0); [W.M]::mouse_event(0x10,0,0,0,0)');
+      case 'double_click':
+        return this.ps('1..2 | % { [W.M]::mouse_event(0x02,0,0,0,0); [W.M]::mouse_event(0x04,0,0,0,0) }');
+      case 'mouse_down': return this.ps(`[W.M]::mouse_event(${command.button === 'right' ? '0x08' : '0x02'},0,0,0,0)`);
+      case 'mouse_up': return this.ps(`[W.M]::mouse_event(${command.button === 'right' ? '0x10' : '0x04'},0,0,0,0)`);
+      case 'type_text':
+        return this.ps('[System.Windows.Forms.SendKeys]::SendWait($env:BRIDGE_TEXT)', { BRIDGE_TEXT: sendKeysLiteral(command.text ?? '') });
+      case 'key_combo': {
+        const codes = (command.keys ?? []).map(winVirtualKey);
+        const down = codes.map(c => `[W.M]::keybd_event(${c},0,0,0)`);
+        const up = [...codes].reverse().map(c => `[W.M]::keybd_event(${c},0,2,0)`);
+        return this.ps(`1..${Math.max(1, command.value)} | % { ${[...down, ...up].join('; ')} }`);
+      }
+      case 'scroll': {
+        // Windows has no pixel unit; raw wheel delta (120 per step) is the closest and smooth-scrolling apps honour it.
+        const notches = command.unit === 'pixels' ? command.value : Math.max(1, command.value) * 120;
+        if (command.direction === 'left' || command.direction === 'right') {
+          const delta = command.direction === 'right' ? notches : -notches;
+          return this.ps(`[W.M]::mouse_event(0x1000,0,0,${delta},0)`);
+        }
+        const delta = command.direction === 'up' ? notches : -notches;
+        return this.ps(`[W.M]::mouse_event(0x0800,0,0,${delta},0)`);
+      }
+      // The name is read from the environment, so neither cmd.exe nor PowerShell ever parses it.
+      case 'open': return this.ps('Start-Process -FilePath $env:BRIDGE_APPLICATION', { BRIDGE_APPLICATION: command.application });
+      case 'none': return;
+    }
+  }
+}
+
+// Performs nothing; prints what would have happened.
+export class LoggingDriver implements OsDriver {
+  async perform(command: MouseCommand) {
+    console.log(`[dry-run] ${JSON.stringify(command)}`);
+  }
+}
+
+export function createOsDriver(platform: NodeJS.Platform = process.platform): OsDriver {
+  switch (platform) {
+    case 'linux': return new XdotoolDriver();
+    case 'darwin': return new MacDriver();
+    case 'win32': return new WindowsDriver();
+    default: throw new Error(`Unsupported platform: ${platform}`);
+  }
+}
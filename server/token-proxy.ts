@@ -0,0 +1,54 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { GoogleGenAI } from '@google/genai';
+import { loadEnv } from 'vite';
+import { appOrigins, isAppOrigin } from './origin';
+
+// Same files the dev server reads, so GEMINI_API_KEY can stay in .env.local.
+const env = { ...loadEnv('development', process.cwd(), ''), ...process.env };
+const PORT = Number(env.TOKEN_PORT || 8787);
+const API_KEY = env.GEMINI_API_KEY;
+const ALLOWED_ORIGINS = appOrigins(env.APP_ORIGINS);
+// A token starts one session within a minute; resumptions don't count as uses and may run until it expires.
+const NEW_SESSION_WINDOW_MS = 60 * 1000;
+const TOKEN_LIFETIME_MS = 30 * 60 * 1000;
+
+const send = (res: ServerResponse, status: number, body: Record<string, unknown>) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+};
+
+function startTokenProxy(apiKey: string, port = PORT) {
+  const ai = new GoogleGenAI({ apiKey, httpOptions: { apiVersion: 'v1alpha' } });
+
+  const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    if (!isAppOrigin(req.headers.origin, ALLOWED_ORIGINS)) return send(res, 403, { error: 'Origin not allowed' });
+    if (req.method !== 'POST' || req.url !== '/token') return send(res, 404, { error: 'Not found' });
+
+    const now = Date.now();
+    const expiresAt = new Date(now + TOKEN_LIFETIME_MS).toISOString();
+    try {
+      const token = await ai.authTokens.create({
+        config: {
+          uses: 1,
+          expireTime: expiresAt,
+          newSessionExpireTime: new Date(now + NEW_SESSION_WINDOW_MS).toISOString(),
+          httpOptions: { apiVersion: 'v1alpha' },
+        },
+      });
+      send(res, 200, { token: token.name, expiresAt });
+    } catch (err) {
+      console.error('Could not create token:', (err as Error).message);
+      send(res, 502, { error: `Could not create token: ${(err as Error).message}` });
+    }
+  });
+
+  server.listen(port, '127.0.0.1');
+  return server;
+}
+
+if (!API_KEY) {
+  console.error('GEMINI_API_KEY is not set. Add it to .env.local or the environment.');
+  process.exit(1);
+}
+startTokenProxy(API_KEY);
+console.log(`Token proxy listening on http://127.0.0.1:${PORT}/token`);
@@ -1,27 +1,68 @@
+// Built into dist/sw.js by plugins/service-worker.ts, which fills in the two placeholders below.
+const CACHE_VERSION = self.__CACHE_VERSION__;
+const PRECACHE_URLS = self.__PRECACHE_URLS__;
 
-const CACHE_NAME = 'gemini-voice-v1';
-const ASSETS_TO_CACHE = [
-  '/',
-  '/index.html',
-  '/manifest.json'
-];
+const CACHE_PREFIX = 'gemini-voice-';
+const PRECACHE = `${CACHE_PREFIX}precache-${CACHE_VERSION}`;
+const RUNTIME = `${CACHE_PREFIX}runtime-${CACHE_VERSION}`;
+// Third-party styles and fonts the page needs to render offline.
+const RUNTIME_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
 
 self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(PRECACHE).then((cache) => cache.addAll(PRECACHE_URLS)));
+});
+
+self.addEventListener('activate', (event) => {
   event.waitUntil(
-    caches.open(CACHE_NAME).then((cache) => {
-      return cache.addAll(ASSETS_TO_CACHE);
-    })
+    caches.keys()
+      .then((names) => Promise.all(
+        names
+          .filter((name) => name.startsWith(CACHE_PREFIX) && name !== PRECACHE && name !== RUNTIME)
+          .map((name) => caches.delete(name))
+      ))
+      // Caches from before versioning used a fixed name.
+      .then(() => caches.delete('gemini-voice-v1'))
+      .then(() => self.clients.claim())
   );
 });
 
-self.addEventListener('activate', (event) => {
-  event.waitUntil(self.clients.claim());
+// The page asks for this once the user accepts the update prompt.
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
 });
 
+const isApiRequest = (url) =>
+  url.pathname.startsWith('/api/') ||
+  (url.hostname.endsWith('googleapis.com') && !RUNTIME_HOSTS.includes(url.hostname));
+
 self.addEventListener('fetch', (event) => {
-  event.respondWith(
-    caches.match(event.request).then((cachedResponse) => {
-      return cachedResponse || fetch(event.request);
-    })
-  );
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (isApiRequest(url)) return;
+
+  if (url.origin === self.location.origin) {
+    // Pages go to the network first so a new deploy is picked up; the cached shell covers offline.
+    if (request.mode === 'navigate') {
+      event.respondWith(fetch(request).catch(() => caches.match('/index.html')));
+      return;
+    }
+    event.respondWith(caches.match(request).then((cached) => cached || fetch(request)));
+    return;
+  }
+
+  if (RUNTIME_HOSTS.includes(url.hostname)) {
+    event.respondWith(
+      caches.open(RUNTIME).then(async (cache) => {
+        const cached = await cache.match(request);
+        const network = fetch(request)
+          .then((response) => {
+            if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+            return response;
+          })
+          .catch(() => cached);
+        return cached || network;
+      })
+    );
+  }
 });
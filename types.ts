@@ -2,22 +2,92 @@
 export interface TranscriptionEntry {
   role: 'user' | 'model';
   text: string;
+  timestamp: number;
+  complete?: boolean;
 }
 
 export enum SessionStatus {
   IDLE = 'IDLE',
   CONNECTING = 'CONNECTING',
   CONNECTED = 'CONNECTED',
+  RECONNECTING = 'RECONNECTING',
   ERROR = 'ERROR',
 }
 
+// Coordinates on the shared frame, normalized to 0-1000 on both axes (the convention Gemini uses for boxes).
+export interface FrameTarget {
+  x: number;
+  y: number;
+  box?: { ymin: number; xmin: number; ymax: number; xmax: number };
+  label?: string;
+}
+
+// Every desktop input action, not only pointer ones; the name predates keyboard support.
 export interface MouseCommand {
-  action: 'move' | 'left_click' | 'right_click' | 'double_click' | 'scroll' | 'open' | 'none';
+  action:
+    | 'move' | 'left_click' | 'right_click' | 'double_click' | 'mouse_down' | 'mouse_up' | 'scroll'
+    | 'type_text' | 'key_combo' | 'open' | 'none';
   direction: 'up' | 'down' | 'left' | 'right' | '';
+  // Distance for move, amount for scroll, repeat count for key_combo.
   value: number;
   application: string;
+  // type_text only.
+  text?: string;
+  // key_combo only: normalized key names, modifiers first (see parseKeyCombo).
+  keys?: string[];
+  // mouse_down / mouse_up only.
+  button?: 'left' | 'right';
+  // scroll only: `value` counts wheel steps unless this is 'pixels'.
+  unit?: 'steps' | 'pixels';
+  target?: FrameTarget;
+  // Absolute screen pixels, filled in from `target` before the command reaches the executor.
+  screenPoint?: { x: number; y: number };
 }
 
+// Taps on the mic input and the model's playback chain, read by the Visualizer.
+export interface AudioAnalysers {
+  input: AnalyserNode;
+  output: AnalyserNode;
+}
+
+export interface ExecutionResult {
+  ok: boolean;
+  error?: string;
+}
+
+export interface CommandFeedback {
+  command: MouseCommand;
+  state: 'pending' | 'confirm' | 'success' | 'error' | 'blocked';
+  message?: string;
+  // Set while a macro is replaying.
+  step?: { macro: string; index: number; total: number };
+}
+
+export interface MacroStep {
+  command: MouseCommand;
+  // Pause before this step, measured from the previous one while recording.
+  delayMs: number;
+}
+
+export interface Macro {
+  id: string;
+  name: string;
+  steps: MacroStep[];
+  createdAt: number;
+}
+
+export interface ActionPolicyConfig {
+  // When non-empty, only these applications may be opened.
+  allowedApplications: string[];
+  deniedApplications: string[];
+  // Actions that wait for a spoken or typed confirmation before running.
+  confirmActions: MouseCommand['action'][];
+  maxClicksPerWindow: number;
+  clickWindowMs: number;
+}
+
+export type InputMode = 'always-on' | 'vad' | 'push-to-talk';
+
 export interface LiveConfig {
   model: string;
   systemInstruction?: string;
@@ -26,4 +96,97 @@ export interface LiveConfig {
   isScreenSharing: boolean;
   isMuted: boolean;
   isMouseMode: boolean;
+  inputMode: InputMode;
+  // KeyboardEvent.code held down to talk in push-to-talk mode.
+  pushToTalkKey: string;
+  // MediaDeviceInfo.deviceId of each selected device; '' follows the system default.
+  audioInputId: string;
+  audioOutputId: string;
+  videoInputId: string;
+  // BCP-47 speech language, e.g. 'es-ES'; '' lets the model detect it.
+  languageCode: string;
+}
+
+export type DeviceSelection = Pick<LiveConfig, 'audioInputId' | 'audioOutputId' | 'videoInputId'>;
+
+export interface InstructionPreset {
+  id: string;
+  name: string;
+  text: string;
+}
+
+export interface MediaOptions {
+  frameIntervalMs: number;
+  jpegQuality: number;
+  width: number;
+  height: number;
+}
+
+// Everything the toolbar can do, reachable from the command palette and bindable to a hotkey.
+export type AppAction =
+  | 'toggle-session' | 'end-session' | 'toggle-mute' | 'cycle-input-mode' | 'toggle-camera' | 'flip-camera'
+  | 'toggle-screen-share' | 'toggle-recording' | 'toggle-mouse-mode' | 'toggle-devices' | 'toggle-transcript'
+  | 'toggle-macros' | 'toggle-history' | 'toggle-settings' | 'toggle-metrics' | 'command-palette';
+
+// UI and speech languages with a message catalog in utils/locales.
+export type LocaleCode = 'en' | 'es' | 'de' | 'fr' | 'ar';
+
+export interface AppSettings {
+  locale: LocaleCode;
+  model: string;
+  voiceName: LiveConfig['voiceName'];
+  defaultMode: 'mouse' | 'normal';
+  inputMode: InputMode;
+  pushToTalkKey: string;
+  presets: InstructionPreset[];
+  mousePresetId: string;
+  normalPresetId: string;
+  media: MediaOptions;
+  policy: ActionPolicyConfig;
+  devices: DeviceSelection;
+  // Combo strings such as 'Ctrl+KeyK' (see comboFromEvent); '' leaves the action unbound.
+  hotkeys: Record<AppAction, string>;
+}
+
+export interface CommandLogEntry {
+  timestamp: number;
+  command: MouseCommand;
+  ok: boolean;
+  error?: string;
+}
+
+// Summary of a set of duration samples, in milliseconds; null until there is a sample.
+export interface LatencyStats {
+  count: number;
+  last: number | null;
+  avg: number | null;
+  p50: number | null;
+  p95: number | null;
+  max: number | null;
+}
+
+// Collected on the device by SessionMetrics and kept with the session record; never uploaded.
+export interface SessionMetricsSummary {
+  sessionId: string | null;
+  startedAt: number | null;
+  endedAt: number | null;
+  // Each connection, including reconnects and handovers, from dialing to the socket opening.
+  connect: LatencyStats;
+  // From the user stopping speaking to the first model audio of the reply.
+  response: LatencyStats;
+  // Camera and screen frames sent; bytes are the decoded JPEG sizes.
+  media: { frames: number; bytes: number };
+  // Mouse commands from tool calls and model text that passed or failed validation.
+  commands: { parsed: number; failed: number };
+}
+
+export interface SessionRecord {
+  id: string;
+  startedAt: number;
+  endedAt?: number;
+  mode: 'mouse' | 'normal';
+  transcript: TranscriptionEntry[];
+  commands: CommandLogEntry[];
+  // Missing on sessions recorded before metrics existed.
+  metrics?: SessionMetricsSummary;
 }
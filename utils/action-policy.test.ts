@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { MouseCommand } from '../types';
+import { ActionPolicy, DEFAULT_POLICY, confirmationFromSpeech } from './action-policy';
+
+const command = (action: MouseCommand['action'], extra: Partial<MouseCommand> = {}): MouseCommand => ({
+  action,
+  direction: '',
+  value: 0,
+  application: '',
+  ...extra,
+});
+
+const open = (application: string) => command('open', { application });
+
+describe('ActionPolicy', () => {
+  it('denies blocked applications regardless of case or extension', () => {
+    const policy = new ActionPolicy();
+    expect(policy.evaluate(open('RegEdit.exe'))).toEqual({ verdict: 'deny', reason: 'Opening "RegEdit.exe" is blocked by policy' });
+  });
+
+  it('only allows listed applications when an allow list is set', () => {
+    const policy = new ActionPolicy({ ...DEFAULT_POLICY, allowedApplications: ['Calculator.app'], confirmActions: [] });
+    expect(policy.evaluate(open('calculator'))).toEqual({ verdict: 'allow' });
+    expect(policy.evaluate(open('notepad'))).toEqual({ verdict: 'deny', reason: '"notepad" is not on the allowed application list' });
+  });
+
+  it('asks for confirmation of the configured actions', () => {
+    expect(new ActionPolicy().evaluate(open('calc'))).toEqual({ verdict: 'confirm', prompt: 'Say "confirm" or press Y to open calc' });
+    expect(new ActionPolicy().evaluate(command('left_click'))).toEqual({ verdict: 'allow' });
+  });
+
+  it('limits recorded clicks within the window', () => {
+    let now = 0;
+    const policy = new ActionPolicy({ ...DEFAULT_POLICY, maxClicksPerWindow: 2, clickWindowMs: 1000 }, 'en', () => now);
+    const click = command('double_click');
+
+    policy.evaluate(click);
+    policy.record(click);
+    now = 400;
+    policy.record(command('mouse_down'));
+    // Evaluated but never executed clicks and non-click actions don't count.
+    policy.evaluate(click);
+    policy.record(command('move', { direction: 'up', value: 10 }));
+
+    now = 900;
+    expect(policy.evaluate(click)).toEqual({ verdict: 'deny', reason: 'Click limit reached (2 per 1s)' });
+    expect(policy.evaluate(command('scroll', { direction: 'down', value: 1 }))).toEqual({ verdict: 'allow' });
+    now = 1001;
+    expect(policy.evaluate(click)).toEqual({ verdict: 'allow' });
+  });
+
+  it('forgets clicks on reset', () => {
+    const policy = new ActionPolicy({ ...DEFAULT_POLICY, maxClicksPerWindow: 1 });
+    policy.record(command('left_click'));
+    expect(policy.evaluate(command('left_click')).verdict).toBe('deny');
+    policy.reset();
+    expect(policy.evaluate(command('left_click')).verdict).toBe('allow');
+  });
+
+  it('words reasons and prompts in the given locale', () => {
+    const policy = new ActionPolicy(DEFAULT_POLICY, 'es');
+    expect(policy.evaluate(open('diskpart'))).toEqual({ verdict: 'deny', reason: 'La política bloquea abrir "diskpart"' });
+    expect(policy.evaluate(open('calc'))).toEqual({ verdict: 'confirm', prompt: 'Di "confirmo" o pulsa Y para: abrir calc' });
+  });
+});
+
+describe('confirmationFromSpeech', () => {
+  it('reads yes and no in the supported languages', () => {
+    expect(confirmationFromSpeech('Confirm.')).toBe(true);
+    expect(confirmationFromSpeech('confirmo', 'es')).toBe(true);
+    expect(confirmationFromSpeech('cancel', 'fr')).toBe(false);
+    expect(confirmationFromSpeech('cancel')).toBe(false);
+    expect(confirmationFromSpeech('what is on the screen')).toBeNull();
+  });
+
+  it("ignores other languages' answers in ordinary speech", () => {
+    expect(confirmationFromSpeech('abre los archivos', 'es')).toBeNull();
+    expect(confirmationFromSpeech('los', 'en')).toBeNull();
+    expect(confirmationFromSpeech('los', 'de')).toBe(true);
+    expect(confirmationFromSpeech('si', 'en')).toBeNull();
+    expect(confirmationFromSpeech('si', 'de')).toBeNull();
+    expect(confirmationFromSpeech('Sí', 'es')).toBe(true);
+  });
+});
@@ -0,0 +1,80 @@
+import { ActionPolicyConfig, LocaleCode, MouseCommand } from '../types';
+import { commandDetail } from './mouse-commands';
+import { DEFAULT_LOCALE, Messages, messagesFor, spokenAnswer } from './i18n';
+
+export type PolicyDecision =
+  | { verdict: 'allow' }
+  | { verdict: 'deny'; reason: string }
+  | { verdict: 'confirm'; prompt: string };
+
+export const DEFAULT_POLICY: ActionPolicyConfig = {
+  allowedApplications: [],
+  deniedApplications: ['regedit', 'diskpart'],
+  confirmActions: ['open'],
+  maxClicksPerWindow: 10,
+  clickWindowMs: 5000,
+};
+
+const CLICK_ACTIONS: MouseCommand['action'][] = ['left_click', 'right_click', 'double_click', 'mouse_down'];
+
+const normalizeApp = (name: string) => name.trim().toLowerCase().replace(/\.(exe|app)$/, '');
+
+const describe = (command: MouseCommand, t: Messages) => {
+  const detail = commandDetail(command);
+  return `${t.commandActions[command.action]}${detail ? ` ${detail}` : ''}${command.target?.label ? ` (${command.target.label})` : ''}`;
+};
+
+// Sits between parsing and execution. Pure apart from the click history, with an injectable clock for tests.
+// Reasons and prompts are in the user's language since they are shown in the HUD.
+export class ActionPolicy {
+  private clickTimes: number[] = [];
+  private t: Messages;
+
+  constructor(
+    private config: ActionPolicyConfig = DEFAULT_POLICY,
+    locale: LocaleCode = DEFAULT_LOCALE,
+    private now: () => number = Date.now,
+  ) {
+    this.t = messagesFor(locale);
+  }
+
+  evaluate(command: MouseCommand): PolicyDecision {
+    if (command.action === 'open') {
+      const app = normalizeApp(command.application);
+      if (this.config.deniedApplications.some(d => normalizeApp(d) === app)) {
+        return { verdict: 'deny', reason: this.t.policy.blocked(command.application) };
+      }
+      const allowed = this.config.allowedApplications;
+      if (allowed.length && !allowed.some(a => normalizeApp(a) === app)) {
+        return { verdict: 'deny', reason: this.t.policy.notAllowed(command.application) };
+      }
+    }
+
+    if (CLICK_ACTIONS.includes(command.action)) {
+      const windowStart = this.now() - this.config.clickWindowMs;
+      this.clickTimes = this.clickTimes.filter(t => t > windowStart);
+      if (this.clickTimes.length >= this.config.maxClicksPerWindow) {
+        return { verdict: 'deny', reason: this.t.policy.clickLimit(this.config.maxClicksPerWindow, this.config.clickWindowMs / 1000) };
+      }
+    }
+
+    if (this.config.confirmActions.includes(command.action)) {
+      return { verdict: 'confirm', prompt: this.t.policy.confirm(describe(command, this.t)) };
+    }
+    return { verdict: 'allow' };
+  }
+
+  // Call once a command has actually been sent to the executor so rate limits count real clicks only.
+  record(command: MouseCommand) {
+    if (CLICK_ACTIONS.includes(command.action)) this.clickTimes.push(this.now());
+  }
+
+  reset() {
+    this.clickTimes = [];
+  }
+}
+
+// Reads a transcription chunk as an answer to a pending confirmation, in the user's language or English.
+export function confirmationFromSpeech(text: string, locale: LocaleCode = DEFAULT_LOCALE): boolean | null {
+  return spokenAnswer(text, locale);
+}
@@ -0,0 +1,45 @@
+import captureProcessorUrl from '../worklets/capture-processor.ts?worker&url';
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+// 40 ms at 16 kHz, down from the 256 ms ScriptProcessor buffer.
+const FRAME_SAMPLES = 640;
+
+export interface AudioCapture {
+  source: MediaStreamAudioSourceNode;
+  node: AudioWorkletNode;
+  stop(): void;
+}
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+export async function startAudioCapture(
+  ctx: AudioContext,
+  stream: MediaStream,
+  onFrame: (samples: Float32Array) => void,
+): Promise<AudioCapture> {
+  if (!loadedContexts.has(ctx)) {
+    await ctx.audioWorklet.addModule(captureProcessorUrl);
+    loadedContexts.add(ctx);
+  }
+
+  const source = ctx.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(ctx, 'capture-processor', {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { targetRate: CAPTURE_SAMPLE_RATE, frameSamples: FRAME_SAMPLES },
+  });
+  node.port.onmessage = (e: MessageEvent<Float32Array>) => onFrame(e.data);
+  source.connect(node);
+
+  return {
+    source,
+    node,
+    stop() {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+    },
+  };
+}
@@ -0,0 +1,107 @@
+import playbackProcessorUrl from '../worklets/playback-processor.ts?worker&url';
+import type { PlaybackMessage, PlaybackProcessorOptions, PlaybackReport } from '../worklets/playback-processor';
+import { decode } from './audio-utils';
+import { Resampler } from './resampler';
+
+export interface PlaybackPosition {
+  // Model audio actually sent to the speakers so far.
+  playedMs: number;
+  // Queued and not yet heard.
+  bufferedMs: number;
+}
+
+const PROCESSOR_OPTIONS: PlaybackProcessorOptions = {
+  prebufferMs: 60,
+  fadeMs: 30,
+  declickMs: 3,
+  duckMs: 80,
+  reportMs: 50,
+};
+// Model volume while the user is talking over it.
+const DUCK_GAIN = 0.3;
+const DEFAULT_PCM_RATE = 24000;
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+const pcmRate = (mimeType: string) => Number(/rate=(\d+)/.exec(mimeType)?.[1]) || DEFAULT_PCM_RATE;
+
+// Streams model PCM into a worklet ring buffer, replacing one AudioBufferSourceNode per chunk.
+export class AudioPlayback {
+  private resampler: Resampler | null = null;
+  private report: PlaybackReport = { played: 0, buffered: 0 };
+  // Pushed to the worklet since its last report, which that report doesn't count yet.
+  private pendingSamples = 0;
+  private isDucked = false;
+
+  private constructor(private ctx: AudioContext, private node: AudioWorkletNode) {
+    node.port.onmessage = (e: MessageEvent<PlaybackReport>) => {
+      this.report = e.data;
+      this.pendingSamples = 0;
+    };
+  }
+
+  static async create(ctx: AudioContext, destination: AudioNode): Promise<AudioPlayback> {
+    if (!loadedContexts.has(ctx)) {
+      await ctx.audioWorklet.addModule(playbackProcessorUrl);
+      loadedContexts.add(ctx);
+    }
+    const node = new AudioWorkletNode(ctx, 'playback-processor', {
+      numberOfInputs: 0,
+      numberOfOutputs: 1,
+      outputChannelCount: [1],
+      processorOptions: PROCESSOR_OPTIONS,
+    });
+    node.connect(destination);
+    return new AudioPlayback(ctx, node);
+  }
+
+  get position(): PlaybackPosition {
+    const rate = this.ctx.sampleRate;
+    return {
+      playedMs: (this.report.played / rate) * 1000,
+      bufferedMs: ((this.report.buffered + this.pendingSamples) / rate) * 1000,
+    };
+  }
+
+  // Accepts 16-bit little-endian PCM at whatever rate the mime type declares.
+  enqueue(base64: string, mimeType = '') {
+    const bytes = decode(base64);
+    const pcm = new Int16Array(bytes.buffer, bytes.byteOffset, bytes.byteLength >> 1);
+    let samples = new Float32Array(pcm.length);
+    for (let i = 0; i < pcm.length; i++) samples[i] = pcm[i] / 32768;
+
+    const rate = pcmRate(mimeType);
+    if (rate !== this.ctx.sampleRate) {
+      if (this.resampler?.fromRate !== rate) this.resampler = new Resampler(rate, this.ctx.sampleRate);
+      samples = this.resampler.process(samples);
+    }
+    this.pendingSamples += samples.length;
+    this.post({ type: 'push', samples }, [samples.buffer]);
+  }
+
+  // The model finished its turn: play out the tail even if it's shorter than the jitter buffer.
+  endTurn() {
+    this.post({ type: 'drain' });
+  }
+
+  interrupt() {
+    this.resampler = null;
+    this.pendingSamples = 0;
+    this.post({ type: 'interrupt' });
+  }
+
+  duck(active: boolean) {
+    if (active === this.isDucked) return;
+    this.isDucked = active;
+    this.post({ type: 'duck', gain: active ? DUCK_GAIN : 1 });
+  }
+
+  disconnect() {
+    this.node.port.onmessage = null;
+    this.node.disconnect();
+  }
+
+  private post(message: PlaybackMessage, transfer: Transferable[] = []) {
+    this.node.port.postMessage(message, transfer);
+  }
+}
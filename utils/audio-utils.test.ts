@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { createBlob, decode, encode, floatTo16BitPCM } from './audio-utils';
+
+const pcmFromBlob = (data: string) => {
+  const bytes = decode(data);
+  return Array.from(new Int16Array(bytes.buffer, bytes.byteOffset, bytes.byteLength >> 1));
+};
+
+describe('floatTo16BitPCM', () => {
+  it('maps full scale to the 16-bit limits', () => {
+    expect(Array.from(floatTo16BitPCM(new Float32Array([1, -1, 0])))).toEqual([32767, -32768, 0]);
+  });
+
+  it('scales positive and negative halves separately', () => {
+    expect(Array.from(floatTo16BitPCM(new Float32Array([0.5, -0.5])))).toEqual([16383, -16384]);
+  });
+
+  it('clamps values beyond the range instead of wrapping', () => {
+    expect(Array.from(floatTo16BitPCM(new Float32Array([1.5, -3, 100])))).toEqual([32767, -32768, 32767]);
+  });
+});
+
+describe('createBlob', () => {
+  it('labels the PCM with the sample rate, 16 kHz by default', () => {
+    expect(createBlob(new Float32Array(4)).mimeType).toBe('audio/pcm;rate=16000');
+    expect(createBlob(new Float32Array(4), 24000).mimeType).toBe('audio/pcm;rate=24000');
+  });
+
+  it('encodes little-endian 16-bit samples as base64', () => {
+    const { data } = createBlob(new Float32Array([1, -1, 0]));
+    expect(Array.from(decode(data))).toEqual([0xff, 0x7f, 0x00, 0x80, 0x00, 0x00]);
+    expect(data).toBe('/38AgAAA');
+    expect(pcmFromBlob(data)).toEqual([32767, -32768, 0]);
+  });
+});
+
+describe('encode / decode', () => {
+  it('round-trips every byte value', () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expect(Array.from(decode(encode(bytes)))).toEqual(Array.from(bytes));
+  });
+});
@@ -0,0 +1,134 @@
+import { Type } from '@google/genai';
+import { ToolDefinition } from './tool-registry';
+
+const NOTES_KEY = 'gemini-live-notes';
+
+export interface Note {
+  id: string;
+  text: string;
+  createdAt: number;
+}
+
+export function loadNotes(): Note[] {
+  try {
+    const stored = localStorage.getItem(NOTES_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter(n => n && typeof n.text === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveNotes(notes: Note[]) {
+  localStorage.setItem(NOTES_KEY, JSON.stringify(notes));
+}
+
+export const clipboardReadTool: ToolDefinition = {
+  declaration: {
+    name: 'read_clipboard',
+    description: "Read the text currently on the user's clipboard.",
+  },
+  // The browser only allows this while the page has focus, and may prompt the user first.
+  timeoutMs: 15000,
+  handler: async () => {
+    if (!navigator.clipboard?.readText) return { status: 'error', error: 'Clipboard access is not available in this browser' };
+    const text = await navigator.clipboard.readText();
+    return { status: 'success', text };
+  },
+};
+
+export const clipboardWriteTool: ToolDefinition<{ text: string }> = {
+  declaration: {
+    name: 'write_clipboard',
+    description: "Copy text to the user's clipboard.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: { text: { type: Type.STRING, description: 'Text to copy.' } },
+      required: ['text'],
+    },
+  },
+  handler: async ({ text }) => {
+    if (typeof text !== 'string') return { status: 'error', error: 'text must be a string' };
+    if (!navigator.clipboard?.writeText) return { status: 'error', error: 'Clipboard access is not available in this browser' };
+    await navigator.clipboard.writeText(text);
+    return { status: 'success', message: `Copied ${text.length} characters` };
+  },
+};
+
+export const currentTimeTool: ToolDefinition = {
+  declaration: {
+    name: 'get_current_time',
+    description: "Get the current date and time in the user's time zone.",
+  },
+  handler: async () => {
+    const now = new Date();
+    return {
+      status: 'success',
+      iso: now.toISOString(),
+      local: now.toLocaleString(),
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    };
+  },
+};
+
+export const addNoteTool: ToolDefinition<{ text: string }> = {
+  declaration: {
+    name: 'add_note',
+    description: 'Save a short note for the user on this device.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { text: { type: Type.STRING, description: 'The note to save.' } },
+      required: ['text'],
+    },
+  },
+  handler: async ({ text }) => {
+    if (typeof text !== 'string' || !text.trim()) return { status: 'error', error: 'text must be a non-empty string' };
+    const note = { id: crypto.randomUUID(), text: text.trim(), createdAt: Date.now() };
+    saveNotes([...loadNotes(), note]);
+    return { status: 'success', message: 'Note saved', id: note.id };
+  },
+};
+
+export const listNotesTool: ToolDefinition<{ query?: string }> = {
+  declaration: {
+    name: 'list_notes',
+    description: 'List the saved notes, optionally only those containing a search term.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { query: { type: Type.STRING, description: 'Only return notes containing this text.' } },
+    },
+  },
+  handler: async ({ query }) => {
+    const q = typeof query === 'string' ? query.trim().toLowerCase() : '';
+    const notes = loadNotes().filter(n => !q || n.text.toLowerCase().includes(q));
+    return { status: 'success', notes: notes.map(n => ({ id: n.id, text: n.text, createdAt: new Date(n.createdAt).toISOString() })) };
+  },
+};
+
+export const deleteNoteTool: ToolDefinition<{ id: string }> = {
+  declaration: {
+    name: 'delete_note',
+    description: 'Delete a saved note by the id returned from list_notes.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { id: { type: Type.STRING, description: 'Id of the note to delete.' } },
+      required: ['id'],
+    },
+  },
+  handler: async ({ id }) => {
+    const notes = loadNotes();
+    const remaining = notes.filter(n => n.id !== id);
+    if (remaining.length === notes.length) return { status: 'error', error: `No note with id "${id}"` };
+    saveNotes(remaining);
+    return { status: 'success', message: 'Note deleted' };
+  },
+};
+
+export const BUILTIN_TOOLS: ToolDefinition<any>[] = [
+  clipboardReadTool,
+  clipboardWriteTool,
+  currentTimeTool,
+  addNoteTool,
+  listNotesTool,
+  deleteNoteTool,
+];
@@ -0,0 +1,54 @@
+import { GoogleGenAI } from '@google/genai';
+
+const SESSION_KEY = 'gemini-live-api-key';
+// The dev server proxies this path to the token proxy (server/token-proxy.ts).
+const TOKEN_URL = process.env.TOKEN_URL || '/api/token';
+
+// Thrown when neither a runtime key nor the token proxy can provide credentials.
+export class MissingCredentialsError extends Error {
+  constructor(message = 'No Gemini credentials: start the token proxy (npm run token-server) or enter an API key in Settings.') {
+    super(message);
+    this.name = 'MissingCredentialsError';
+  }
+}
+
+// A key entered at runtime lives only in this tab's session storage and is never persisted.
+export function getRuntimeApiKey(): string | null {
+  try {
+    return sessionStorage.getItem(SESSION_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function setRuntimeApiKey(key: string | null) {
+  try {
+    if (key) sessionStorage.setItem(SESSION_KEY, key);
+    else sessionStorage.removeItem(SESSION_KEY);
+  } catch (err) {
+    console.warn('Could not store API key', err);
+  }
+}
+
+async function fetchEphemeralToken(): Promise<string> {
+  let res: Response;
+  try {
+    res = await fetch(TOKEN_URL, { method: 'POST' });
+  } catch {
+    throw new MissingCredentialsError();
+  }
+  const body = await res.json().catch(() => ({}));
+  // The dev proxy answers 5xx/404 with an HTML or empty body when the token proxy isn't running.
+  if (!res.ok && !body.error) throw new MissingCredentialsError();
+  if (!res.ok) throw new Error(body.error);
+  if (typeof body.token !== 'string') throw new Error('Token proxy returned no token');
+  return body.token;
+}
+
+// Call before every connect: ephemeral tokens are single-use.
+export async function createLiveClient(): Promise<GoogleGenAI> {
+  const runtimeKey = getRuntimeApiKey();
+  if (runtimeKey) return new GoogleGenAI({ apiKey: runtimeKey });
+  const token = await fetchEphemeralToken();
+  return new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+}
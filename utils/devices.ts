@@ -0,0 +1,71 @@
+import { DeviceSelection } from '../types';
+
+export type DeviceKind = 'audioinput' | 'audiooutput' | 'videoinput';
+
+export type DeviceLists = Record<DeviceKind, MediaDeviceInfo[]>;
+
+export const EMPTY_DEVICE_LISTS: DeviceLists = { audioinput: [], audiooutput: [], videoinput: [] };
+
+export const SELECTION_KEYS: Record<DeviceKind, keyof DeviceSelection> = {
+  audioinput: 'audioInputId',
+  audiooutput: 'audioOutputId',
+  videoinput: 'videoInputId',
+};
+
+// Until the page has been granted access, browsers report only placeholder entries without ids, which are dropped.
+export async function listDevices(): Promise<DeviceLists> {
+  if (!navigator.mediaDevices?.enumerateDevices) return EMPTY_DEVICE_LISTS;
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  const lists: DeviceLists = { audioinput: [], audiooutput: [], videoinput: [] };
+  for (const device of devices) {
+    // 'default' / 'communications' are aliases of real devices; an empty selection already means the default.
+    if (!device.deviceId || device.deviceId === 'default' || device.deviceId === 'communications') continue;
+    lists[device.kind]?.push(device);
+  }
+  return lists;
+}
+
+export const deviceLabel = (device: MediaDeviceInfo, index: number) =>
+  device.label || `${device.kind === 'videoinput' ? 'Camera' : device.kind === 'audioinput' ? 'Microphone' : 'Speaker'} ${index + 1}`;
+
+// A stored selection only counts while that device is still plugged in; otherwise fall back to the default ('').
+export const availableDeviceId = (lists: DeviceLists, kind: DeviceKind, deviceId = '') =>
+  deviceId && lists[kind].some(d => d.deviceId === deviceId) ? deviceId : '';
+
+const micConstraints = (deviceId = ''): MediaTrackConstraints | boolean =>
+  deviceId ? { deviceId: { exact: deviceId } } : true;
+
+const cameraConstraints = (deviceId: string, facingMode: 'user' | 'environment'): MediaTrackConstraints =>
+  deviceId ? { deviceId: { exact: deviceId } } : { facingMode };
+
+type SinkAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+export const supportsOutputSelection = () =>
+  typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+
+// Returns false when the browser can't route AudioContext output (e.g. Firefox, Safari).
+export async function routeOutput(ctx: AudioContext, deviceId = ''): Promise<boolean> {
+  const sinkCtx = ctx as SinkAudioContext;
+  if (!sinkCtx.setSinkId) return false;
+  await sinkCtx.setSinkId(deviceId);
+  return true;
+}
+
+// Falls back to the default device when the chosen one is gone or busy.
+export async function openMicrophone(deviceId = ''): Promise<MediaStream> {
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio: micConstraints(deviceId) });
+  } catch (err) {
+    if (!deviceId) throw err;
+    return navigator.mediaDevices.getUserMedia({ audio: true });
+  }
+}
+
+export async function openCamera(deviceId: string, facingMode: 'user' | 'environment'): Promise<MediaStream> {
+  try {
+    return await navigator.mediaDevices.getUserMedia({ video: cameraConstraints(deviceId, facingMode) });
+  } catch (err) {
+    if (!deviceId) throw err;
+    return navigator.mediaDevices.getUserMedia({ video: { facingMode } });
+  }
+}
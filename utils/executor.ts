@@ -0,0 +1,112 @@
+import { MouseCommand, ExecutionResult } from '../types';
+
+export const DEFAULT_BRIDGE_URL = 'ws://localhost:8765';
+
+const ACK_TIMEOUT_MS = 5000;
+
+export interface CommandExecutor {
+  execute(command: MouseCommand): Promise<ExecutionResult>;
+  close(): void;
+}
+
+interface BridgeAck {
+  id: string;
+  ok: boolean;
+  error?: string;
+}
+
+// Sends commands to the local companion (server/executor-bridge.ts) and resolves with its acknowledgement.
+export class BridgeExecutor implements CommandExecutor {
+  private socket: WebSocket | null = null;
+  private connecting: Promise<WebSocket> | null = null;
+  private pending = new Map<string, { resolve: (r: ExecutionResult) => void; timer: number }>();
+  private nextId = 0;
+
+  constructor(private url: string = DEFAULT_BRIDGE_URL) {}
+
+  private connect(): Promise<WebSocket> {
+    if (this.socket?.readyState === WebSocket.OPEN) return Promise.resolve(this.socket);
+    if (this.connecting) return this.connecting;
+
+    this.connecting = new Promise<WebSocket>((resolve, reject) => {
+      const socket = new WebSocket(this.url);
+      socket.onopen = () => {
+        this.socket = socket;
+        this.connecting = null;
+        resolve(socket);
+      };
+      socket.onerror = () => {
+        this.connecting = null;
+        reject(new Error(`Executor bridge unreachable at ${this.url}`));
+      };
+      socket.onclose = () => {
+        this.socket = null;
+        this.failPending('Executor bridge disconnected');
+      };
+      socket.onmessage = (e) => {
+        let ack: BridgeAck;
+        try { ack = JSON.parse(e.data); } catch { return; }
+        const entry = this.pending.get(ack.id);
+        if (!entry) return;
+        clearTimeout(entry.timer);
+        this.pending.delete(ack.id);
+        entry.resolve({ ok: ack.ok, error: ack.error });
+      };
+    });
+    return this.connecting;
+  }
+
+  private failPending(error: string) {
+    this.pending.forEach(({ resolve, timer }) => {
+      clearTimeout(timer);
+      resolve({ ok: false, error });
+    });
+    this.pending.clear();
+  }
+
+  async execute(command: MouseCommand): Promise<ExecutionResult> {
+    let socket: WebSocket;
+    try {
+      socket = await this.connect();
+    } catch (err) {
+      return { ok: false, error: (err as Error).message };
+    }
+
+    const id = String(++this.nextId);
+    return new Promise<ExecutionResult>((resolve) => {
+      const timer = window.setTimeout(() => {
+        this.pending.delete(id);
+        resolve({ ok: false, error: 'Executor did not acknowledge in time' });
+      }, ACK_TIMEOUT_MS);
+      this.pending.set(id, { resolve, timer });
+      socket.send(JSON.stringify({ id, command }));
+    });
+  }
+
+  close() {
+    this.failPending('Executor closed');
+    this.socket?.close();
+    this.socket = null;
+    this.connecting = null;
+  }
+}
+
+// Logs commands instead of performing them. Used for tests and when no bridge is running.
+export class DryRunExecutor implements CommandExecutor {
+  readonly executed: MouseCommand[] = [];
+
+  constructor(private log: (message: string) => void = console.info) {}
+
+  async execute(command: MouseCommand): Promise<ExecutionResult> {
+    this.executed.push(command);
+    this.log(`[dry-run] ${JSON.stringify(command)}`);
+    return { ok: true };
+  }
+
+  close() {}
+}
+
+export function createExecutor(): CommandExecutor {
+  if (process.env.EXECUTOR === 'dry-run') return new DryRunExecutor();
+  return new BridgeExecutor(process.env.EXECUTOR_URL || DEFAULT_BRIDGE_URL);
+}
@@ -0,0 +1,105 @@
+import { LiveServerMessage } from '@google/genai';
+import { LiveConnectParams, LiveConnection, LiveTransport, LiveTransportCallbacks } from './live-transport';
+
+export type SentMessage =
+  | { kind: 'realtime'; params: Parameters<LiveConnection['sendRealtimeInput']>[0] }
+  | { kind: 'toolResponse'; params: Parameters<LiveConnection['sendToolResponse']>[0] }
+  | { kind: 'clientContent'; params: Parameters<LiveConnection['sendClientContent']>[0] };
+
+export class FakeLiveConnection implements LiveConnection {
+  readonly sent: SentMessage[] = [];
+  closed = false;
+
+  constructor(readonly params: LiveConnectParams, private callbacks: LiveTransportCallbacks) {}
+
+  sendRealtimeInput(params: Parameters<LiveConnection['sendRealtimeInput']>[0]) {
+    this.sent.push({ kind: 'realtime', params });
+  }
+
+  sendToolResponse(params: Parameters<LiveConnection['sendToolResponse']>[0]) {
+    this.sent.push({ kind: 'toolResponse', params });
+  }
+
+  sendClientContent(params: Parameters<LiveConnection['sendClientContent']>[0]) {
+    this.sent.push({ kind: 'clientContent', params });
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.callbacks.onclose({ reason: 'Closed by client', code: 1000 });
+  }
+
+  open() {
+    this.callbacks.onopen();
+  }
+
+  // Delivers a scripted sequence in order; `gapMs` spaces messages out like a real stream would.
+  async replay(messages: LiveServerMessage[], gapMs = 0) {
+    for (const message of messages) {
+      if (this.closed) return;
+      this.callbacks.onmessage(message);
+      await new Promise(resolve => setTimeout(resolve, gapMs));
+    }
+  }
+
+  drop(reason = 'Connection lost', code = 1006) {
+    if (this.closed) return;
+    this.closed = true;
+    this.callbacks.onclose({ reason, code });
+  }
+
+  fail(message = 'Connection error') {
+    this.callbacks.onerror({ message });
+  }
+}
+
+export interface FakeTransportOptions {
+  // Open each connection on the next tick, like the SDK does once the socket is up.
+  autoOpen?: boolean;
+}
+
+// In-memory stand-in for the Live API: records what the app sends and replays scripted server messages.
+export class FakeLiveTransport implements LiveTransport {
+  readonly connections: FakeLiveConnection[] = [];
+  private failures: Error[] = [];
+
+  constructor(private options: FakeTransportOptions = { autoOpen: true }) {}
+
+  get latest(): FakeLiveConnection | undefined {
+    return this.connections[this.connections.length - 1];
+  }
+
+  // The next `connect` rejects with this error instead of opening.
+  failNextConnect(error = new Error('Connection refused')) {
+    this.failures.push(error);
+  }
+
+  async connect(params: LiveConnectParams, callbacks: LiveTransportCallbacks): Promise<LiveConnection> {
+    const failure = this.failures.shift();
+    if (failure) throw failure;
+    const connection = new FakeLiveConnection(params, callbacks);
+    this.connections.push(connection);
+    if (this.options.autoOpen) setTimeout(() => { if (!connection.closed) connection.open(); }, 0);
+    return connection;
+  }
+}
+
+// Builders for the server messages a script is usually made of.
+export const scripted = {
+  audio: (data: string, mimeType = 'audio/pcm;rate=24000'): LiveServerMessage =>
+    ({ serverContent: { modelTurn: { parts: [{ inlineData: { data, mimeType } }] } } }) as LiveServerMessage,
+  text: (text: string): LiveServerMessage =>
+    ({ serverContent: { modelTurn: { parts: [{ text }] } } }) as LiveServerMessage,
+  inputTranscription: (text: string): LiveServerMessage =>
+    ({ serverContent: { inputTranscription: { text } } }) as LiveServerMessage,
+  outputTranscription: (text: string): LiveServerMessage =>
+    ({ serverContent: { outputTranscription: { text } } }) as LiveServerMessage,
+  toolCall: (name: string, args: Record<string, unknown> = {}, id = `call-${name}`): LiveServerMessage =>
+    ({ toolCall: { functionCalls: [{ id, name, args }] } }) as LiveServerMessage,
+  turnComplete: (): LiveServerMessage => ({ serverContent: { turnComplete: true } }) as LiveServerMessage,
+  interrupted: (): LiveServerMessage => ({ serverContent: { interrupted: true } }) as LiveServerMessage,
+  resumable: (handle: string): LiveServerMessage =>
+    ({ sessionResumptionUpdate: { resumable: true, newHandle: handle } }) as LiveServerMessage,
+  goAway: (): LiveServerMessage => ({ goAway: { timeLeft: '1s' } }) as LiveServerMessage,
+};
@@ -0,0 +1,30 @@
+export const SIGNATURE_WIDTH = 32;
+export const SIGNATURE_HEIGHT = 24;
+
+// Grayscale thumbnail of an RGBA image already scaled to SIGNATURE_WIDTH x SIGNATURE_HEIGHT.
+export function frameSignature(rgba: Uint8ClampedArray): Uint8Array {
+  const signature = new Uint8Array(rgba.length / 4);
+  for (let i = 0; i < signature.length; i++) {
+    const o = i * 4;
+    signature[i] = (rgba[o] * 77 + rgba[o + 1] * 150 + rgba[o + 2] * 29) >> 8;
+  }
+  return signature;
+}
+
+// Mean absolute difference between two signatures, 0 (identical) to 1.
+export function frameDifference(a: Uint8Array | null, b: Uint8Array): number {
+  if (!a || a.length !== b.length) return 1;
+  let sum = 0;
+  for (let i = 0; i < b.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / (b.length * 255);
+}
+
+// Largest size with the source's aspect ratio that fits in the bounding box. Even dimensions keep encoders happy.
+export function fitWithin(sourceWidth: number, sourceHeight: number, maxWidth: number, maxHeight: number) {
+  if (!sourceWidth || !sourceHeight) return { width: maxWidth, height: maxHeight };
+  const scale = Math.min(1, maxWidth / sourceWidth, maxHeight / sourceHeight);
+  return {
+    width: Math.max(2, Math.round((sourceWidth * scale) / 2) * 2),
+    height: Math.max(2, Math.round((sourceHeight * scale) / 2) * 2),
+  };
+}
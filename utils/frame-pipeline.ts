@@ -0,0 +1,98 @@
+import { MediaOptions } from '../types';
+import { fitWithin } from './frame-diff';
+import type { FrameRequest, FrameResponse } from '../workers/frame-encoder.worker';
+
+// Below this mean pixel difference the frame counts as unchanged and is not sent.
+const CHANGE_THRESHOLD = 0.015;
+// Resend even an unchanged screen this often so the model never works from a stale view for long.
+const KEYFRAME_INTERVAL_MS = 10000;
+const BOOST_INTERVAL_MS = 250;
+const BOOST_DURATION_MS = 2000;
+
+export interface SentFrame {
+  data: string;
+  width: number;
+  height: number;
+  bytes: number;
+}
+
+// Samples the video element, skips frames that haven't visibly changed and encodes the rest as JPEG in a worker.
+export class FramePipeline {
+  private worker = new Worker(new URL('../workers/frame-encoder.worker.ts', import.meta.url), { type: 'module' });
+  private timer: number | null = null;
+  private busy = false;
+  private boostUntil = 0;
+  private lastSentAt = 0;
+  private stopped = false;
+
+  constructor(
+    private video: HTMLVideoElement,
+    private options: MediaOptions,
+    private onFrame: (frame: SentFrame) => void,
+    private isReady: () => boolean = () => true,
+  ) {
+    this.worker.onmessage = (e: MessageEvent<FrameResponse>) => this.handleResult(e.data);
+    this.worker.onerror = (e) => {
+      console.warn('Frame encoder failed', e.message);
+      this.busy = false;
+    };
+    this.schedule();
+  }
+
+  // Sample faster for a short while, e.g. right after a mouse command, so the model sees the result quickly.
+  boost(durationMs = BOOST_DURATION_MS) {
+    this.boostUntil = performance.now() + durationMs;
+    this.schedule(0);
+  }
+
+  stop() {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.worker.terminate();
+  }
+
+  private schedule(delay?: number) {
+    if (this.stopped) return;
+    if (this.timer) clearTimeout(this.timer);
+    const interval = performance.now() < this.boostUntil
+      ? Math.min(BOOST_INTERVAL_MS, this.options.frameIntervalMs)
+      : this.options.frameIntervalMs;
+    this.timer = window.setTimeout(() => this.capture(), delay ?? interval);
+  }
+
+  private async capture() {
+    this.timer = null;
+    const { videoWidth, videoHeight } = this.video;
+    if (this.busy || !this.isReady() || !videoWidth || this.video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
+      this.schedule();
+      return;
+    }
+
+    this.busy = true;
+    try {
+      const { width, height } = fitWithin(videoWidth, videoHeight, this.options.width, this.options.height);
+      const bitmap = await createImageBitmap(this.video, { resizeWidth: width, resizeHeight: height, resizeQuality: 'medium' });
+      if (this.stopped) { bitmap.close(); return; }
+      const request: FrameRequest = {
+        bitmap,
+        quality: this.options.jpegQuality,
+        threshold: CHANGE_THRESHOLD,
+        force: performance.now() - this.lastSentAt > KEYFRAME_INTERVAL_MS,
+      };
+      this.worker.postMessage(request, [bitmap]);
+    } catch (err) {
+      this.busy = false;
+      console.warn('Could not capture frame', err);
+    }
+    this.schedule();
+  }
+
+  private handleResult(result: FrameResponse) {
+    this.busy = false;
+    if (this.stopped) return;
+    if (!result.sent) return;
+    this.lastSentAt = performance.now();
+    this.onFrame(result);
+  }
+}
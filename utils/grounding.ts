@@ -0,0 +1,39 @@
+import { FrameTarget } from '../types';
+
+export interface ScreenGeometry {
+  width: number;
+  height: number;
+}
+
+// Frame coordinates only map onto the OS screen when a whole monitor is shared, not a window or tab.
+export function screenGeometry(stream: MediaStream): ScreenGeometry | null {
+  const settings = stream.getVideoTracks()[0]?.getSettings() as MediaTrackSettings & { displaySurface?: string };
+  if (!settings?.width || !settings?.height) return null;
+  if (settings.displaySurface && settings.displaySurface !== 'monitor') return null;
+  return { width: settings.width, height: settings.height };
+}
+
+// The frames keep the screen's aspect ratio (see frame-pipeline.ts), so the 0-1000 frame space scales linearly.
+// The result is relative to the shared monitor; the bridge adds its desktop origin (BRIDGE_SCREEN_OFFSET).
+export function frameToScreen(target: FrameTarget, screen: ScreenGeometry): { x: number; y: number } {
+  return {
+    x: Math.min(screen.width - 1, Math.round((target.x / 1000) * screen.width)),
+    y: Math.min(screen.height - 1, Math.round((target.y / 1000) * screen.height)),
+  };
+}
+
+// Where a 0-1000 frame point lands inside an element showing the video with `object-fit: contain`.
+export function frameToElement(
+  point: { x: number; y: number },
+  video: { width: number; height: number },
+  element: { width: number; height: number },
+): { x: number; y: number; scale: number } {
+  const scale = Math.min(element.width / video.width, element.height / video.height);
+  const offsetX = (element.width - video.width * scale) / 2;
+  const offsetY = (element.height - video.height * scale) / 2;
+  return {
+    x: offsetX + (point.x / 1000) * video.width * scale,
+    y: offsetY + (point.y / 1000) * video.height * scale,
+    scale,
+  };
+}
@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LiveServerMessage, Tool } from '@google/genai';
+import { LiveConfig, TranscriptionEntry } from '../types';
+import { HANDOVER_TURN_WAIT_MS, LiveSetup, handoverTurns, mergeSetup, setupChanged, setupOf } from './handover';
+import { FakeLiveConnection, FakeLiveTransport, scripted } from './fake-transport';
+import { LiveSessionController } from './live-session';
+import { ToolRegistry } from './tool-registry';
+
+const SETUP: LiveSetup = {
+  model: 'live-model',
+  voiceName: 'Puck',
+  languageCode: 'en-US',
+  systemInstruction: 'Be helpful.',
+  isMouseMode: false,
+};
+
+const CONFIG: LiveConfig = {
+  ...SETUP,
+  isCameraEnabled: true,
+  isScreenSharing: false,
+  isMuted: true,
+  inputMode: 'vad',
+  pushToTalkKey: 'Space',
+  audioInputId: 'mic-2',
+  audioOutputId: '',
+  videoInputId: '',
+};
+
+const entry = (role: TranscriptionEntry['role'], text: string): TranscriptionEntry => ({ role, text, timestamp: 0, complete: true });
+
+describe('setupOf / mergeSetup', () => {
+  it('keeps only the connect-time fields', () => {
+    expect(setupOf(CONFIG)).toEqual(SETUP);
+    expect(mergeSetup(SETUP, { isMouseMode: true, isMuted: true })).toEqual({ ...SETUP, isMouseMode: true });
+  });
+});
+
+describe('setupChanged', () => {
+  it('is false for an identical setup', () => {
+    expect(setupChanged(SETUP, { ...SETUP })).toBe(false);
+  });
+
+  it.each(['model', 'voiceName', 'languageCode', 'systemInstruction', 'isMouseMode'] as const)('notices a different %s', field => {
+    const changed = { ...SETUP, [field]: field === 'isMouseMode' ? true : 'other' };
+    expect(setupChanged(SETUP, changed)).toBe(true);
+  });
+});
+
+describe('handoverTurns', () => {
+  it('replays turns in order as content with their roles, skipping empty ones', () => {
+    expect(handoverTurns([entry('user', ' hi '), entry('model', '   '), entry('model', 'hello')])).toEqual([
+      { role: 'user', parts: [{ text: 'hi' }] },
+      { role: 'model', parts: [{ text: 'hello' }] },
+    ]);
+  });
+
+  it('keeps only the most recent 20 turns', () => {
+    const entries = Array.from({ length: 30 }, (_, i) => entry(i % 2 ? 'model' : 'user', `turn ${i}`));
+    const turns = handoverTurns(entries);
+    expect(turns).toHaveLength(20);
+    expect(turns[0].parts[0].text).toBe('turn 10');
+    expect(turns[19].parts[0].text).toBe('turn 29');
+  });
+
+  it('stops before the turn that would pass 8000 characters', () => {
+    const turns = handoverTurns([entry('user', 'a'.repeat(10)), entry('model', 'b'.repeat(5000)), entry('user', 'c'.repeat(3000))]);
+    expect(turns.map(t => t.parts[0].text.length)).toEqual([5000, 3000]);
+  });
+
+  it('returns nothing when the last turn alone is too long', () => {
+    expect(handoverTurns([entry('user', 'short'), entry('model', 'x'.repeat(8001))])).toEqual([]);
+  });
+});
+
+describe('LiveSessionController handover', () => {
+  let transport: FakeLiveTransport;
+  let controller: LiveSessionController;
+
+  const declarationNames = (connection: FakeLiveConnection) =>
+    (connection.params.config.tools[0] as Tool).functionDeclarations.map(d => d.name);
+
+  // replay() waits on a timer after each message, so messages go one at a time with the fake clock nudged between them.
+  const deliver = async (connection: FakeLiveConnection, messages: LiveServerMessage[]) => {
+    for (const message of messages) {
+      const done = connection.replay([message]);
+      await vi.advanceTimersByTimeAsync(0);
+      await done;
+    }
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    transport = new FakeLiveTransport();
+    controller = new LiveSessionController(transport);
+    const tools = new ToolRegistry([
+      {
+        declaration: { name: 'set_mouse_control' },
+        handler: async ({ enabled }) => {
+          controller.reconfigure({ isMouseMode: !!enabled });
+          return { status: 'success' };
+        },
+      },
+      { declaration: { name: 'left_click' }, mouseModeOnly: true, handler: async () => ({ status: 'success' }) },
+    ]);
+    await controller.start(SETUP, tools);
+    await vi.advanceTimersByTimeAsync(0);
+  });
+
+  afterEach(() => {
+    controller.stop();
+    vi.useRealTimers();
+  });
+
+  it('switches right away between turns', async () => {
+    controller.reconfigure({ isMouseMode: true });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(transport.connections).toHaveLength(2);
+    expect(transport.connections[0].closed).toBe(true);
+    expect(declarationNames(transport.latest)).toContain('left_click');
+    expect(controller.getState().status).toBe('CONNECTED');
+  });
+
+  it('settles on the last setup after rapid toggles', async () => {
+    for (const isMouseMode of [true, false, true, false, true]) controller.reconfigure({ isMouseMode });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(declarationNames(transport.latest)).toContain('left_click');
+    expect(transport.connections.slice(0, -1).every(c => c.closed)).toBe(true);
+    expect(transport.latest.closed).toBe(false);
+    expect(controller.getState().status).toBe('CONNECTED');
+  });
+
+  it('cancels a pending switch that is toggled back while the model speaks', async () => {
+    await deliver(transport.latest, [scripted.audio('AAAA')]);
+    controller.reconfigure({ isMouseMode: true });
+    controller.reconfigure({ isMouseMode: false });
+    await deliver(transport.latest, [scripted.turnComplete()]);
+    await vi.advanceTimersByTimeAsync(HANDOVER_TURN_WAIT_MS);
+
+    expect(transport.connections).toHaveLength(1);
+    expect(transport.latest.closed).toBe(false);
+  });
+
+  it('answers a tool-triggered switch on the old connection and hands over once the turn ends', async () => {
+    const first = transport.latest;
+    await deliver(first, [scripted.inputTranscription('Turn on mouse mode'), scripted.toolCall('set_mouse_control', { enabled: true })]);
+    await vi.advanceTimersByTimeAsync(0);
+
+    // Still mid-turn: the response goes out on the connection that asked for it.
+    expect(transport.connections).toHaveLength(1);
+    expect(first.sent.filter(m => m.kind === 'toolResponse')).toHaveLength(1);
+
+    await deliver(first, [scripted.audio('AAAA'), scripted.outputTranscription('Mouse mode is on.'), scripted.turnComplete()]);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(first.closed).toBe(true);
+    expect(transport.connections).toHaveLength(2);
+    const second = transport.latest;
+    expect(declarationNames(second)).toContain('left_click');
+    expect(second.params.config.sessionResumption.handle).toBeUndefined();
+    // The new connection is seeded with the conversation as context only.
+    expect(second.sent[0]).toEqual({
+      kind: 'clientContent',
+      params: {
+        turns: [
+          { role: 'user', parts: [{ text: 'Turn on mouse mode' }] },
+          { role: 'model', parts: [{ text: 'Mouse mode is on.' }] },
+        ],
+        turnComplete: false,
+      },
+    });
+  });
+
+  it('hands over anyway when the turn does not end in time', async () => {
+    await deliver(transport.latest, [scripted.toolCall('set_mouse_control', { enabled: true })]);
+    await vi.advanceTimersByTimeAsync(HANDOVER_TURN_WAIT_MS - 1);
+    expect(transport.connections).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(transport.connections).toHaveLength(2);
+    expect(declarationNames(transport.latest)).toContain('left_click');
+  });
+});
@@ -0,0 +1,41 @@
+import { Content } from '@google/genai';
+import { LiveConfig, TranscriptionEntry } from '../types';
+
+// The parts of the config the Live API only reads at connect time.
+export type LiveSetup = Pick<LiveConfig, 'model' | 'voiceName' | 'languageCode' | 'systemInstruction' | 'isMouseMode'>;
+
+// How long a switch waits for the model to finish speaking before cutting over anyway.
+export const HANDOVER_TURN_WAIT_MS = 5000;
+const HANDOVER_MAX_TURNS = 20;
+const HANDOVER_MAX_CHARS = 8000;
+
+export const setupOf = (config: LiveSetup): LiveSetup => ({
+  model: config.model,
+  voiceName: config.voiceName,
+  languageCode: config.languageCode,
+  systemInstruction: config.systemInstruction,
+  isMouseMode: config.isMouseMode,
+});
+
+export const mergeSetup = (setup: LiveSetup, patch: Partial<LiveConfig>): LiveSetup => setupOf({ ...setup, ...patch });
+
+export const setupChanged = (a: LiveSetup, b: LiveSetup) =>
+  a.model !== b.model ||
+  a.voiceName !== b.voiceName ||
+  a.languageCode !== b.languageCode ||
+  a.systemInstruction !== b.systemInstruction ||
+  a.isMouseMode !== b.isMouseMode;
+
+// A new setup can't resume the old server-side session, so the most recent turns are replayed as text instead.
+export function handoverTurns(entries: TranscriptionEntry[]): Content[] {
+  const turns: Content[] = [];
+  let chars = 0;
+  for (let i = entries.length - 1; i >= 0 && turns.length < HANDOVER_MAX_TURNS; i--) {
+    const text = entries[i].text.trim();
+    if (!text) continue;
+    if (chars + text.length > HANDOVER_MAX_CHARS) break;
+    chars += text.length;
+    turns.unshift({ role: entries[i].role, parts: [{ text }] });
+  }
+  return turns;
+}
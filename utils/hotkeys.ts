@@ -0,0 +1,82 @@
+import { AppAction } from '../types';
+
+// Enter, M and Escape are what the app always answered to; the rest stay free for typing y/n confirmations.
+export const DEFAULT_HOTKEYS: Record<AppAction, string> = {
+  'toggle-session': 'Enter',
+  'end-session': 'Escape',
+  'toggle-mute': 'KeyM',
+  'cycle-input-mode': 'KeyI',
+  'toggle-camera': 'KeyC',
+  'flip-camera': '',
+  'toggle-screen-share': 'KeyS',
+  'toggle-recording': 'KeyR',
+  'toggle-mouse-mode': '',
+  'toggle-devices': 'KeyD',
+  'toggle-transcript': 'KeyT',
+  'toggle-macros': '',
+  'toggle-history': 'KeyH',
+  'toggle-settings': 'Comma',
+  'toggle-metrics': 'KeyP',
+  'command-palette': 'Ctrl+KeyK',
+};
+
+// Labels live in the message catalogs (Messages.actions).
+export const APP_ACTIONS = Object.keys(DEFAULT_HOTKEYS) as AppAction[];
+
+const MODIFIER_CODES = ['ControlLeft', 'ControlRight', 'ShiftLeft', 'ShiftRight', 'AltLeft', 'AltRight', 'MetaLeft', 'MetaRight'];
+
+// Layout-independent combo string, e.g. 'Ctrl+Shift+KeyK'. Null while only modifiers are held.
+export function comboFromEvent(e: Pick<KeyboardEvent, 'code' | 'ctrlKey' | 'shiftKey' | 'altKey' | 'metaKey'>): string | null {
+  if (!e.code || MODIFIER_CODES.includes(e.code)) return null;
+  const modifiers = [e.ctrlKey && 'Ctrl', e.altKey && 'Alt', e.shiftKey && 'Shift', e.metaKey && 'Meta'].filter(Boolean);
+  return [...modifiers, e.code].join('+');
+}
+
+export function hotkeyLabel(combo: string): string {
+  if (!combo) return '';
+  return combo.split('+').map(part => part.replace(/^(Key|Digit)/, '').replace(/^Comma$/, ',')).join(' + ');
+}
+
+// The aria-keyshortcuts form: 'Control+K'.
+export function ariaKeyShortcut(combo: string): string {
+  if (!combo) return '';
+  return combo.split('+').map(part => (part === 'Ctrl' ? 'Control' : part.replace(/^(Key|Digit)/, '').replace(/^Comma$/, ','))).join('+');
+}
+
+// Hotkeys never fire while the user is typing.
+export function isTypingTarget(target: EventTarget | null): boolean {
+  const el = target as HTMLElement | null;
+  return !!el?.closest?.('input, textarea, select, [contenteditable=""], [contenteditable="true"]');
+}
+
+// Enter and Space on a focused button or option activate it rather than a hotkey.
+export function isActivationKey(target: EventTarget | null, combo: string): boolean {
+  const el = target as HTMLElement | null;
+  return (combo === 'Enter' || combo === 'Space') && !!el?.closest?.('button, a, [role="option"], [role="button"]');
+}
+
+export function actionForCombo(hotkeys: Record<AppAction, string>, combo: string): AppAction | null {
+  return APP_ACTIONS.find(action => hotkeys[action] === combo) ?? null;
+}
+
+// A combo can only drive one action; binding it elsewhere unbinds it here.
+export function bindHotkey(hotkeys: Record<AppAction, string>, action: AppAction, combo: string): Record<AppAction, string> {
+  const next = { ...hotkeys };
+  if (combo) APP_ACTIONS.forEach(other => { if (next[other] === combo) next[other] = ''; });
+  next[action] = combo;
+  return next;
+}
+
+export function normalizeHotkeys(raw: unknown): Record<AppAction, string> {
+  const stored = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const isStored = (action: AppAction) => typeof stored[action] === 'string';
+  const hotkeys = APP_ACTIONS.reduce(
+    (bound, action) => (isStored(action) ? bindHotkey(bound, action, stored[action] as string) : bound),
+    Object.fromEntries(APP_ACTIONS.map(action => [action, ''])) as Record<AppAction, string>,
+  );
+  // Actions added since the settings were saved get their default unless the user already took that combo.
+  APP_ACTIONS.forEach(action => {
+    if (!isStored(action) && !actionForCombo(hotkeys, DEFAULT_HOTKEYS[action])) hotkeys[action] = DEFAULT_HOTKEYS[action];
+  });
+  return hotkeys;
+}
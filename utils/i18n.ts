@@ -0,0 +1,275 @@
+import { AppAction, CommandFeedback, InputMode, LiveConfig, LocaleCode, MouseCommand, SessionStatus } from '../types';
+import { en } from './locales/en';
+import { es } from './locales/es';
+import { de } from './locales/de';
+import { fr } from './locales/fr';
+import { ar } from './locales/ar';
+
+type Direction = Exclude<MouseCommand['direction'], ''>;
+
+export interface Messages {
+  actions: Record<AppAction, string>;
+  commandActions: Record<MouseCommand['action'], string>;
+  hudStates: Record<CommandFeedback['state'], string>;
+  statuses: Record<SessionStatus, string>;
+  inputModes: Record<InputMode, string>;
+  app: {
+    macroStep: (macro: string, index: number, total: number) => string;
+    upNext: string;
+    updateAvailable: string;
+    reload: string;
+    later: string;
+    endSessionFirst: string;
+    micMuted: string;
+    listening: string;
+    holdToTalk: (key: string) => string;
+    recordingSession: string;
+    recordingMacro: string;
+    offline: string;
+    offlineBadge: string;
+    reconnecting: (attempt: number) => string;
+    enterApiKey: string;
+  };
+  toolbar: {
+    label: string;
+    status: (status: string) => string;
+    startSession: string;
+    endSession: string;
+    mute: string;
+    inputMode: (mode: string) => string;
+    camera: string;
+    shareScreen: string;
+    record: string;
+    devices: string;
+    mouseMode: string;
+    transcript: string;
+    macros: string;
+    macrosRecording: string;
+    history: string;
+    settings: string;
+  };
+  announce: {
+    connecting: string;
+    connected: string;
+    reconnected: string;
+    reconnecting: (attempt: number) => string;
+    error: (message: string) => string;
+    ended: string;
+    muted: string;
+    unmuted: string;
+    inputMode: (mode: string) => string;
+  };
+  palette: { title: string; search: string; placeholder: string; empty: string; list: string };
+  devices: {
+    title: string;
+    close: string;
+    microphone: string;
+    speaker: string;
+    camera: string;
+    systemDefault: string;
+    noOutputSelection: string;
+  };
+  transcript: { title: string; empty: string };
+  recording: {
+    title: (duration: string) => string;
+    label: string;
+    video: string;
+    downloadVideo: string;
+    downloadWebm: string;
+    downloadWav: string;
+    subtitles: string;
+    downloadSubtitles: string;
+    discard: string;
+    discardRecording: string;
+    exportFailed: (message: string) => string;
+    micMissing: string;
+  };
+  settings: {
+    title: string;
+    close: string;
+    language: string;
+    languageHint: string;
+    apiKey: string;
+    usingOwnKey: string;
+    forget: string;
+    apiKeyPlaceholder: string;
+    use: string;
+    apiKeyHint: string;
+    voice: string;
+    model: string;
+    defaultMode: string;
+    modes: Record<'mouse' | 'normal', string>;
+    microphoneInput: string;
+    inputModeOptions: Record<InputMode, string>;
+    pressKey: string;
+    talkKey: (key: string) => string;
+    shortcuts: string;
+    pressKeys: string;
+    shortcutUnset: string;
+    shortcutButton: (action: string, key: string) => string;
+    shortcutsHint: string;
+    instructions: string;
+    newPreset: string;
+    presetToEdit: string;
+    presetName: string;
+    newPresetName: string;
+    usedForMouse: string;
+    useForMouse: string;
+    usedForNormal: string;
+    useForNormal: string;
+    reset: string;
+    delete: string;
+    frames: string;
+    interval: string;
+    jpegQuality: string;
+    resolution: string;
+    policy: string;
+    allowedApps: string;
+    blockedApps: string;
+    confirmBefore: string;
+    maxClicks: (seconds: number) => string;
+    defaults: string;
+    restartNote: string;
+    save: string;
+  };
+  macros: {
+    title: string;
+    close: string;
+    recordingHint: string;
+    hint: string;
+    discard: string;
+    empty: string;
+    steps: (count: number) => string;
+    name: string;
+    stepsJson: string;
+    nameRequired: string;
+    save: string;
+    cancel: string;
+    stop: string;
+    run: string;
+    edit: string;
+    delete: string;
+  };
+  history: {
+    title: string;
+    close: string;
+    search: string;
+    searchPlaceholder: string;
+    readFailed: (message: string) => string;
+    exportAllMarkdown: string;
+    exportAllJson: string;
+    empty: string;
+    summary: (turns: number, commands: number) => string;
+    you: string;
+    model: string;
+    exportMarkdown: string;
+    exportJson: string;
+    delete: string;
+  };
+  metrics: {
+    title: string;
+    close: string;
+    collapse: string;
+    expand: string;
+    connect: string;
+    response: string;
+    latency: (last: string, p50: string, p95: string, count: number) => string;
+    media: string;
+    mediaSent: (frames: number, size: string) => string;
+    commands: string;
+    commandCounts: (parsed: number, failed: number) => string;
+    export: string;
+    localOnly: string;
+  };
+  // Reasons shown in the command HUD when the action policy or the app stops a command.
+  policy: {
+    blocked: (app: string) => string;
+    notAllowed: (app: string) => string;
+    clickLimit: (max: number, seconds: number) => string;
+    confirm: (action: string) => string;
+    mouseOff: string;
+    cancelled: string;
+    needsScreen: string;
+    noExecutor: string;
+  };
+  instructions: {
+    mouse: string;
+    normal: string;
+    // Appended to custom presets so the model still answers in this language; '' for English.
+    language: string;
+    presetNames: { mouse: string; normal: string };
+  };
+  // Spoken forms of each direction, matched after lowercasing and dropping accents.
+  directions: Record<Direction, string[]>;
+  // Spoken answers to a confirmation prompt.
+  answers: { yes: string[]; no: string[] };
+}
+
+export interface LocaleInfo {
+  code: LocaleCode;
+  // Shown in the language picker in the language itself.
+  name: string;
+  // BCP-47 code sent as speechConfig.languageCode.
+  speechLanguage: string;
+  // Suggested when the locale is picked; every prebuilt voice speaks every supported language.
+  voiceName: LiveConfig['voiceName'];
+  dir: 'ltr' | 'rtl';
+  messages: Messages;
+}
+
+export const LOCALES: LocaleInfo[] = [
+  { code: 'en', name: 'English', speechLanguage: 'en-US', voiceName: 'Zephyr', dir: 'ltr', messages: en },
+  { code: 'es', name: 'Español', speechLanguage: 'es-ES', voiceName: 'Kore', dir: 'ltr', messages: es },
+  { code: 'de', name: 'Deutsch', speechLanguage: 'de-DE', voiceName: 'Fenrir', dir: 'ltr', messages: de },
+  { code: 'fr', name: 'Français', speechLanguage: 'fr-FR', voiceName: 'Charon', dir: 'ltr', messages: fr },
+  { code: 'ar', name: 'العربية', speechLanguage: 'ar-XA', voiceName: 'Puck', dir: 'rtl', messages: ar },
+];
+
+export const DEFAULT_LOCALE: LocaleCode = 'en';
+
+export const isLocale = (code: unknown): code is LocaleCode => LOCALES.some(l => l.code === code);
+
+export const localeInfo = (code: LocaleCode): LocaleInfo => LOCALES.find(l => l.code === code) ?? LOCALES[0];
+
+export const messagesFor = (code: LocaleCode): Messages => localeInfo(code).messages;
+
+// First browser language we have a catalog for.
+export function detectLocale(languages: readonly string[] = typeof navigator === 'undefined' ? [] : navigator.languages ?? []): LocaleCode {
+  for (const language of languages) {
+    const code = language.toLowerCase().split('-')[0];
+    if (isLocale(code)) return code;
+  }
+  return DEFAULT_LOCALE;
+}
+
+const normalizeSpoken = (text: string) =>
+  text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Spoken direction words are accepted in every supported language, whatever the UI is set to.
+const DIRECTION_WORDS = new Map<string, Direction>(
+  LOCALES.flatMap(({ messages }) =>
+    (Object.keys(messages.directions) as Direction[]).flatMap(direction =>
+      messages.directions[direction].map(word => [normalizeSpoken(word), direction] as [string, Direction]),
+    ),
+  ),
+);
+
+// "arriba", "nach links", "Up" → the MouseCommand direction; null when the word isn't a direction.
+export function directionFromWord(word: unknown): Direction | null {
+  if (typeof word !== 'string') return null;
+  return DIRECTION_WORDS.get(normalizeSpoken(word)) ?? null;
+}
+
+const answerWords = (locale: LocaleCode, key: 'yes' | 'no') =>
+  new Set([...new Set<LocaleCode>([locale, DEFAULT_LOCALE])].flatMap(code => localeInfo(code).messages.answers[key].map(normalizeSpoken)));
+
+// Reads a transcription chunk as yes/no in the active language, or English. Only those two: a word that means yes in
+// one language can turn up in ordinary speech in another ("los" in "abre los archivos"). Multi-word answers must
+// match a whole phrase.
+export function spokenAnswer(text: string, locale: LocaleCode = DEFAULT_LOCALE): boolean | null {
+  const spoken = ` ${normalizeSpoken(text)} `;
+  const said = (words: Set<string>) => [...words].some(word => spoken.includes(` ${word} `));
+  if (said(answerWords(locale, 'no'))) return false;
+  if (said(answerWords(locale, 'yes'))) return true;
+  return null;
+}
@@ -0,0 +1,336 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LiveServerMessage } from '@google/genai';
+import { SessionRecord, SessionStatus } from '../types';
+import { LiveSetup } from './handover';
+import { FakeLiveConnection, FakeLiveTransport, scripted } from './fake-transport';
+import { LiveSessionController } from './live-session';
+import { ToolRegistry } from './tool-registry';
+import { DEFAULT_BACKOFF } from './reconnect';
+
+const SETUP: LiveSetup = {
+  model: 'live-model',
+  voiceName: 'Puck',
+  languageCode: 'en-US',
+  systemInstruction: 'Be helpful.',
+  isMouseMode: false,
+};
+
+// Longest first retry delay, jitter included.
+const FIRST_RETRY_MS = DEFAULT_BACKOFF.baseMs * (1 + DEFAULT_BACKOFF.jitter);
+
+const SAMPLE_RATE = 16000;
+// 100 ms frames: long enough for the VAD to start speech on the first loud one.
+const loud = () => new Float32Array(1600).fill(0.5);
+const silent = () => new Float32Array(1600);
+
+describe('LiveSessionController', () => {
+  let transport: FakeLiveTransport;
+  let controller: LiveSessionController;
+  let records: SessionRecord[];
+  let clock: number;
+  const echo = vi.fn(async (args: Record<string, unknown>) => ({ status: 'success' as const, echoed: args.text }));
+
+  // replay() waits on a timer after each message, so messages go one at a time with the fake clock nudged between them.
+  const deliver = async (connection: FakeLiveConnection, messages: LiveServerMessage[]) => {
+    for (const message of messages) {
+      const done = connection.replay([message]);
+      await vi.advanceTimersByTimeAsync(0);
+      await done;
+    }
+  };
+
+  const realtime = (connection: FakeLiveConnection) => connection.sent.filter(m => m.kind === 'realtime').map(m => m.params);
+
+  const start = async (setup = SETUP) => {
+    await controller.start(setup, new ToolRegistry([
+      { declaration: { name: 'echo' }, handler: echo },
+      { declaration: { name: 'left_click' }, mouseModeOnly: true, handler: async () => ({ status: 'success' }) },
+    ]));
+    await vi.advanceTimersByTimeAsync(0);
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    clock = 1000;
+    records = [];
+    echo.mockClear();
+    transport = new FakeLiveTransport();
+    controller = new LiveSessionController(transport, {
+      now: () => clock,
+      saveRecord: record => records.push(structuredClone(record)),
+    });
+  });
+
+  afterEach(() => {
+    controller.stop();
+    vi.useRealTimers();
+  });
+
+  describe('connecting', () => {
+    it('opens one connection with the setup and fires ready once', async () => {
+      const ready = vi.fn();
+      controller.on('ready', ready);
+      await start();
+
+      expect(transport.connections).toHaveLength(1);
+      expect(transport.latest.params.model).toBe('live-model');
+      expect(transport.latest.params.config.speechConfig.languageCode).toBe('en-US');
+      expect(controller.getState().status).toBe(SessionStatus.CONNECTED);
+      expect(ready).toHaveBeenCalledTimes(1);
+    });
+
+    it('ignores a second start while the first is still connecting or open', async () => {
+      let release: () => void;
+      const prepare = vi.fn(() => new Promise<void>(resolve => { release = resolve; }));
+      const tools = new ToolRegistry();
+      const first = controller.start(SETUP, tools, prepare);
+      await controller.start({ ...SETUP, model: 'other-model' }, tools, prepare);
+      expect(prepare).toHaveBeenCalledTimes(1);
+
+      release();
+      await first;
+      await vi.advanceTimersByTimeAsync(0);
+      await start();
+
+      expect(transport.connections).toHaveLength(1);
+      expect(transport.latest.params.model).toBe('live-model');
+      controller.stop();
+      expect(records).toHaveLength(1);
+    });
+
+    it('ends in ERROR when the first connect fails', async () => {
+      transport.failNextConnect(new Error('Token proxy unreachable'));
+      await start();
+
+      expect(controller.getState()).toMatchObject({ status: SessionStatus.ERROR, error: 'Token proxy unreachable' });
+    });
+
+    it('saves the record with an end time when stopped', async () => {
+      await start();
+      clock = 5000;
+      controller.stop();
+
+      expect(controller.getState().status).toBe(SessionStatus.IDLE);
+      expect(records.at(-1)).toMatchObject({ startedAt: 1000, endedAt: 5000, mode: 'normal' });
+    });
+  });
+
+  describe('reconnecting', () => {
+    it('resumes a dropped connection with the latest resumption handle', async () => {
+      const ready = vi.fn();
+      const interrupted = vi.fn();
+      controller.on('ready', ready);
+      controller.on('interrupted', interrupted);
+      await start();
+      const first = transport.latest;
+      await deliver(first, [scripted.resumable('handle-1'), scripted.resumable('handle-2')]);
+
+      first.drop();
+      expect(controller.getState()).toMatchObject({ status: SessionStatus.RECONNECTING, reconnectAttempt: 1 });
+      expect(interrupted).toHaveBeenCalledTimes(1);
+      // Nothing goes out while the connection is down.
+      controller.pushAudio(loud(), SAMPLE_RATE);
+      expect(realtime(first)).toHaveLength(0);
+
+      await vi.advanceTimersByTimeAsync(FIRST_RETRY_MS);
+      expect(transport.connections).toHaveLength(2);
+      expect(transport.latest.params.config.sessionResumption.handle).toBe('handle-2');
+      expect(controller.getState()).toMatchObject({ status: SessionStatus.CONNECTED, reconnectAttempt: 0 });
+      expect(ready).toHaveBeenCalledTimes(1);
+    });
+
+    it('moves to a new connection when the server sends goAway', async () => {
+      await start();
+      const first = transport.latest;
+      await deliver(first, [scripted.resumable('handle-1'), scripted.goAway()]);
+
+      expect(first.closed).toBe(true);
+      expect(controller.getState().status).toBe(SessionStatus.RECONNECTING);
+
+      await vi.advanceTimersByTimeAsync(FIRST_RETRY_MS);
+      expect(transport.connections).toHaveLength(2);
+      expect(transport.latest.params.config.sessionResumption.handle).toBe('handle-1');
+      expect(controller.getState().status).toBe(SessionStatus.CONNECTED);
+    });
+
+    it('ignores errors from a connection that was replaced', async () => {
+      await start();
+      const first = transport.latest;
+      first.drop();
+      await vi.advanceTimersByTimeAsync(FIRST_RETRY_MS);
+
+      first.fail('late error');
+      expect(controller.getState()).toMatchObject({ status: SessionStatus.CONNECTED, reconnectAttempt: 0 });
+      expect(transport.connections).toHaveLength(2);
+    });
+
+    it('gives up after the maximum number of attempts', async () => {
+      await start();
+      for (let i = 0; i < DEFAULT_BACKOFF.maxAttempts; i++) transport.failNextConnect();
+      transport.latest.drop();
+      await vi.advanceTimersByTimeAsync(DEFAULT_BACKOFF.maxMs * 2 * DEFAULT_BACKOFF.maxAttempts);
+
+      expect(controller.getState()).toMatchObject({ status: SessionStatus.ERROR, error: 'Connection refused' });
+      expect(transport.connections).toHaveLength(1);
+    });
+  });
+
+  describe('server messages', () => {
+    it('emits audio in order, then the end of the turn', async () => {
+      const events: string[] = [];
+      controller.on('audio', data => events.push(`audio ${data}`));
+      controller.on('turnComplete', () => events.push('turnComplete'));
+      await start();
+      await deliver(transport.latest, [scripted.audio('AAAA'), scripted.audio('BBBB'), scripted.turnComplete()]);
+
+      expect(events).toEqual(['audio AAAA', 'audio BBBB', 'turnComplete']);
+    });
+
+    it('reports interruptions so queued audio can be dropped', async () => {
+      const interrupted = vi.fn();
+      controller.on('interrupted', interrupted);
+      await start();
+      await deliver(transport.latest, [scripted.audio('AAAA'), scripted.interrupted()]);
+
+      expect(interrupted).toHaveBeenCalledTimes(1);
+      expect(controller.getState().status).toBe(SessionStatus.CONNECTED);
+    });
+
+    it('joins transcription chunks into turns and saves them when a turn completes', async () => {
+      await start();
+      await deliver(transport.latest, [
+        scripted.inputTranscription('Hello '),
+        scripted.inputTranscription('there'),
+        scripted.outputTranscription('Hi!'),
+        scripted.turnComplete(),
+      ]);
+
+      expect(records.at(-1).transcript.map(({ role, text, complete }) => ({ role, text, complete }))).toEqual([
+        { role: 'user', text: 'Hello there', complete: true },
+        { role: 'model', text: 'Hi!', complete: true },
+      ]);
+    });
+  });
+
+  describe('tool calls', () => {
+    it('dispatches calls to the registry and sends the responses back', async () => {
+      await start();
+      await deliver(transport.latest, [scripted.toolCall('echo', { text: 'ping' }, 'call-1')]);
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(echo).toHaveBeenCalledWith({ text: 'ping' });
+      expect(transport.latest.sent).toContainEqual({
+        kind: 'toolResponse',
+        params: { functionResponses: [{ id: 'call-1', name: 'echo', response: { status: 'success', echoed: 'ping' } }] },
+      });
+    });
+
+    it('answers calls to unknown or mouse-only tools with an error', async () => {
+      await start();
+      await deliver(transport.latest, [scripted.toolCall('left_click', {}, 'call-2')]);
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(transport.latest.sent).toContainEqual({
+        kind: 'toolResponse',
+        params: { functionResponses: [{ id: 'call-2', name: 'left_click', response: { status: 'error', error: 'Tool "left_click" is not available' } }] },
+      });
+    });
+
+    it('drops a response whose connection has gone away', async () => {
+      let finish: () => void;
+      echo.mockImplementationOnce(() => new Promise(resolve => { finish = () => resolve({ status: 'success', echoed: 'late' }); }));
+      await start();
+      const first = transport.latest;
+      await deliver(first, [scripted.toolCall('echo', { text: 'slow' })]);
+      first.drop();
+      finish();
+      await vi.advanceTimersByTimeAsync(FIRST_RETRY_MS);
+
+      expect(transport.connections.flatMap(c => c.sent).filter(m => m.kind === 'toolResponse')).toHaveLength(0);
+    });
+
+    it('only offers mouse-mode tools in mouse mode', async () => {
+      await start({ ...SETUP, isMouseMode: true });
+      const tools = transport.latest.params.config.tools[0] as { functionDeclarations: { name: string }[] };
+      expect(tools.functionDeclarations.map(d => d.name)).toEqual(['echo', 'left_click']);
+    });
+  });
+
+  describe('input gating', () => {
+    it('streams every frame when always on', async () => {
+      await start();
+      controller.pushAudio(silent(), SAMPLE_RATE);
+      controller.pushAudio(loud(), SAMPLE_RATE);
+
+      const sent = realtime(transport.latest);
+      expect(sent).toHaveLength(2);
+      expect(sent[0].media.mimeType).toBe('audio/pcm;rate=16000');
+    });
+
+    it('sends nothing while muted and ends the stream when muting', async () => {
+      await start();
+      controller.pushAudio(loud(), SAMPLE_RATE);
+      controller.updateInput({ muted: true });
+      controller.pushAudio(loud(), SAMPLE_RATE);
+      controller.pushAudio(loud(), SAMPLE_RATE);
+
+      expect(realtime(transport.latest)).toEqual([expect.objectContaining({ media: expect.anything() }), { audioStreamEnd: true }]);
+    });
+
+    it('holds push-to-talk audio until the key is down, with a short pre-roll', async () => {
+      const speech = vi.fn();
+      controller.on('speech', speech);
+      await start();
+      controller.updateInput({ mode: 'push-to-talk' });
+      for (let i = 0; i < 8; i++) controller.pushAudio(silent(), SAMPLE_RATE);
+      expect(realtime(transport.latest)).toHaveLength(0);
+
+      controller.updateInput({ pushToTalk: true });
+      controller.pushAudio(loud(), SAMPLE_RATE);
+      // Five pre-roll frames, then the current one.
+      expect(realtime(transport.latest)).toHaveLength(6);
+      expect(speech).toHaveBeenLastCalledWith(true);
+
+      controller.updateInput({ pushToTalk: false });
+      controller.pushAudio(silent(), SAMPLE_RATE);
+      expect(realtime(transport.latest).at(-1)).toEqual({ audioStreamEnd: true });
+      expect(speech).toHaveBeenLastCalledWith(false);
+    });
+
+    it('sends audio only while the VAD hears speech', async () => {
+      await start();
+      controller.updateInput({ mode: 'vad' });
+      controller.pushAudio(silent(), SAMPLE_RATE);
+      controller.pushAudio(silent(), SAMPLE_RATE);
+      expect(realtime(transport.latest)).toHaveLength(0);
+
+      controller.pushAudio(loud(), SAMPLE_RATE);
+      expect(realtime(transport.latest)).toHaveLength(3);
+
+      // Speech holds through the hangover, then the stream ends.
+      for (let i = 0; i < 4; i++) controller.pushAudio(silent(), SAMPLE_RATE);
+      expect(realtime(transport.latest).at(-1)).toEqual({ audioStreamEnd: true });
+    });
+  });
+
+  describe('metrics', () => {
+    it('measures connect time and the delay from end of speech to the first model audio', async () => {
+      await controller.start(SETUP, new ToolRegistry());
+      clock += 250;
+      await vi.advanceTimersByTimeAsync(0);
+
+      controller.updateInput({ mode: 'push-to-talk', pushToTalk: true });
+      controller.pushAudio(loud(), SAMPLE_RATE);
+      controller.updateInput({ pushToTalk: false });
+      controller.pushAudio(silent(), SAMPLE_RATE);
+      clock += 420;
+      await deliver(transport.latest, [scripted.audio('AAAA'), scripted.audio('BBBB')]);
+      controller.sendMedia({ data: 'AAAA', mimeType: 'image/jpeg' });
+
+      const summary = controller.metrics.summary();
+      expect(summary.connect).toMatchObject({ count: 1, last: 250 });
+      expect(summary.response).toMatchObject({ count: 1, last: 420 });
+      expect(summary.media).toEqual({ frames: 1, bytes: 3 });
+    });
+  });
+});
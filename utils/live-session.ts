@@ -0,0 +1,415 @@
+import { Content, LiveServerMessage, Modality } from '@google/genai';
+import { CommandLogEntry, InputMode, LiveConfig, SessionRecord, SessionStatus, TranscriptionEntry } from '../types';
+import { LiveConnection, LiveTransport } from './live-transport';
+import { ToolRegistry } from './tool-registry';
+import { Reconnector } from './reconnect';
+import { VoiceActivityDetector } from './vad';
+import { createBlob } from './audio-utils';
+import { appendChunk, completeTurn } from './transcript';
+import { LiveSetup, HANDOVER_TURN_WAIT_MS, mergeSetup, setupChanged, handoverTurns } from './handover';
+import { MissingCredentialsError } from './credentials';
+import { SessionMetrics } from './metrics';
+
+export interface SessionState {
+  status: SessionStatus;
+  reconnectAttempt: number;
+  error: string | null;
+  needsCredentials: boolean;
+}
+
+export interface InputState {
+  mode: InputMode;
+  muted: boolean;
+  pushToTalk: boolean;
+}
+
+export interface SessionEvents {
+  state: (state: SessionState) => void;
+  transcript: (entries: TranscriptionEntry[]) => void;
+  // Raw transcription chunks, as they arrive.
+  transcription: (role: TranscriptionEntry['role'], text: string) => void;
+  // Text parts of a model turn, with the setup of the connection that produced them.
+  modelText: (text: string, setup: LiveSetup) => void;
+  // Every audio part of a model turn, in order.
+  audio: (data: string, mimeType: string) => void;
+  // The user started or stopped talking into an open input (VAD, or push-to-talk held), e.g. to duck playback.
+  speech: (speaking: boolean) => void;
+  // Model audio queued so far should be dropped: barge-in, a dropped connection or a handover.
+  interrupted: () => void;
+  turnComplete: () => void;
+  // The first connection of a session is open; later reconnects and handovers don't fire this again.
+  ready: () => void;
+  // The session has ended for any reason, including errors.
+  end: () => void;
+}
+
+export interface ControllerOptions {
+  saveRecord?: (record: SessionRecord) => void;
+  now?: () => number;
+}
+
+// Frames kept while gated so the first syllable isn't clipped when speech starts (~200 ms).
+const PRE_ROLL_FRAMES = 5;
+
+type SessionEventArgs = { [K in keyof SessionEvents]: Parameters<SessionEvents[K]> };
+type Listener<K extends keyof SessionEvents> = (...args: SessionEventArgs[K]) => void;
+type Listeners<Events extends keyof SessionEvents = keyof SessionEvents> = { [K in Events]?: Set<Listener<K>> };
+
+// Owns one Live session at a time: connecting, reconnects, handovers, tool dispatch, input gating and the
+// session record. Knows nothing about React or the audio graph, so it can be driven by a fake transport.
+export class LiveSessionController {
+  private listeners: Listeners = {};
+  private state: SessionState = { status: SessionStatus.IDLE, reconnectAttempt: 0, error: null, needsCredentials: false };
+  private generation = 0;
+  private connectionId = 0;
+  private connection: LiveConnection | null = null;
+  private reconnector: Reconnector | null = null;
+  private resumeHandle: string | undefined;
+  private tools: ToolRegistry | null = null;
+  // The setup the next connection uses; the open connection keeps the one it was made with.
+  private setup: LiveSetup | null = null;
+  private activeSetup: LiveSetup | null = null;
+  private seed: Content[] = [];
+  private isModelTurn = false;
+  private hasOpened = false;
+  private handoverTimer: ReturnType<typeof setTimeout> | null = null;
+  private record: SessionRecord | null = null;
+  private input: InputState = { mode: 'always-on', muted: false, pushToTalk: false };
+  private vad = new VoiceActivityDetector();
+  private preRoll: Float32Array[] = [];
+  private isStreaming = false;
+  private isUserSpeaking = false;
+  readonly metrics: SessionMetrics;
+
+  constructor(private transport: LiveTransport, private options: ControllerOptions = {}) {
+    this.metrics = new SessionMetrics(options.now);
+  }
+
+  on<K extends keyof SessionEvents>(event: K, listener: Listener<K>): () => void {
+    // Narrowed to this event so TypeScript accepts storing its set.
+    const listeners: Listeners<K> = this.listeners;
+    const set = (listeners[event] ??= new Set());
+    set.add(listener);
+    return () => { set.delete(listener); };
+  }
+
+  private emit<K extends keyof SessionEvents>(event: K, ...args: SessionEventArgs[K]) {
+    this.listeners[event]?.forEach(listener => listener(...args));
+  }
+
+  getState(): SessionState {
+    return this.state;
+  }
+
+  private setState(patch: Partial<SessionState>) {
+    this.state = { ...this.state, ...patch };
+    this.emit('state', this.state);
+  }
+
+  get isOpen() {
+    return !!this.connection;
+  }
+
+  // From start() until the session ends, including while it connects or reconnects.
+  get isActive() {
+    const { status } = this.state;
+    return status === SessionStatus.CONNECTING || status === SessionStatus.CONNECTED || status === SessionStatus.RECONNECTING;
+  }
+
+  get sessionRecord(): SessionRecord | null {
+    return this.record;
+  }
+
+  private get now() {
+    return this.options.now ?? Date.now;
+  }
+
+  updateInput(patch: Partial<InputState>) {
+    this.input = { ...this.input, ...patch };
+  }
+
+  // `prepare` runs after the status turns CONNECTING (e.g. opening the microphone); a throw ends the session with its message.
+  // Does nothing while a session is already active; stop() it first to start over.
+  async start(setup: LiveSetup, tools: ToolRegistry, prepare?: () => Promise<void>) {
+    if (this.isActive) return;
+    const generation = ++this.generation;
+    this.setState({ status: SessionStatus.CONNECTING, reconnectAttempt: 0, error: null, needsCredentials: false });
+    try {
+      await prepare?.();
+      if (generation !== this.generation) return;
+      this.tools = tools;
+      this.setup = setup;
+      this.activeSetup = null;
+      this.seed = [];
+      this.hasOpened = false;
+      this.resumeHandle = undefined;
+      this.vad = new VoiceActivityDetector();
+      this.preRoll = [];
+      this.isStreaming = false;
+      this.isUserSpeaking = false;
+      this.record = {
+        id: crypto.randomUUID(),
+        startedAt: this.now(),
+        mode: setup.isMouseMode ? 'mouse' : 'normal',
+        transcript: [],
+        commands: [],
+      };
+      this.metrics.begin(this.record.id);
+      this.emit('transcript', []);
+
+      this.reconnector = new Reconnector(() => this.connect(generation), {
+        onRetry: (attempt) => {
+          if (generation !== this.generation) return;
+          this.setState({ status: SessionStatus.RECONNECTING, reconnectAttempt: attempt });
+        },
+        onGiveUp: (reason) => {
+          if (generation === this.generation) this.fail(reason);
+        },
+      });
+
+      await this.connect(generation);
+    } catch (err) {
+      if (generation !== this.generation) return;
+      this.fail((err as Error)?.message || 'Could not start the session', err instanceof MissingCredentialsError);
+    }
+  }
+
+  stop() {
+    this.generation++;
+    this.reconnector?.cancel();
+    this.reconnector = null;
+    this.clearHandover();
+    this.resumeHandle = undefined;
+    this.setup = null;
+    this.activeSetup = null;
+    const connection = this.connection;
+    this.connection = null;
+    connection?.close();
+
+    this.metrics.end();
+    if (this.record) {
+      this.record.endedAt = this.now();
+      this.record.transcript = completeTurn(this.record.transcript);
+      this.saveRecord();
+      this.record = null;
+    }
+
+    this.setState({ status: SessionStatus.IDLE, reconnectAttempt: 0 });
+    this.emit('end');
+  }
+
+  // Ends the session and leaves it in ERROR with the given message.
+  fail(message: string, needsCredentials = false) {
+    this.stop();
+    this.setState({ status: SessionStatus.ERROR, error: message, needsCredentials });
+  }
+
+  // Connect-time fields are handed over to a new connection seeded with the transcript; the rest needs no reconnect.
+  reconfigure(patch: Partial<LiveConfig>) {
+    if (!this.setup) return;
+    this.setup = mergeSetup(this.setup, patch);
+    this.requestHandover();
+  }
+
+  // Gates microphone frames by input mode, mute and voice activity before they reach the open connection.
+  pushAudio(frame: Float32Array, sampleRate: number) {
+    const connection = this.connection;
+    const speaking = this.vad.process(frame, (frame.length / sampleRate) * 1000);
+    const { mode, muted, pushToTalk } = this.input;
+    const shouldSend = !muted && (
+      mode === 'always-on' ||
+      (mode === 'vad' && speaking) ||
+      (mode === 'push-to-talk' && pushToTalk)
+    );
+    const userSpeaking = !muted && (mode === 'push-to-talk' ? pushToTalk : speaking);
+    if (userSpeaking !== this.isUserSpeaking) {
+      this.isUserSpeaking = userSpeaking;
+      this.metrics.recordSpeech(userSpeaking);
+      this.emit('speech', userSpeaking);
+    }
+
+    // Only the open connection receives audio; speech during a reconnect is dropped rather than queued.
+    if (!shouldSend) {
+      // Tell the server the stream paused so its own VAD closes the turn instead of waiting.
+      if (this.isStreaming) connection?.sendRealtimeInput({ audioStreamEnd: true });
+      this.isStreaming = false;
+      this.preRoll.push(frame);
+      if (this.preRoll.length > PRE_ROLL_FRAMES) this.preRoll.shift();
+      return;
+    }
+    if (!this.isStreaming && mode !== 'always-on') {
+      this.preRoll.forEach(f => connection?.sendRealtimeInput({ media: createBlob(f, sampleRate) }));
+    }
+    this.preRoll.length = 0;
+    this.isStreaming = true;
+    connection?.sendRealtimeInput({ media: createBlob(frame, sampleRate) });
+  }
+
+  sendMedia(media: { data: string; mimeType: string }) {
+    if (!this.connection) return;
+    this.connection.sendRealtimeInput({ media });
+    this.metrics.recordFrame(media.data);
+  }
+
+  logCommand(entry: CommandLogEntry) {
+    if (!this.record) return;
+    this.record.commands.push(entry);
+    this.saveRecord();
+  }
+
+  private saveRecord() {
+    if (!this.record) return;
+    this.record.metrics = this.metrics.summary();
+    this.options.saveRecord?.(this.record);
+  }
+
+  private updateTranscript(update: (entries: TranscriptionEntry[]) => TranscriptionEntry[]) {
+    if (!this.record) return;
+    this.record.transcript = update(this.record.transcript);
+    this.emit('transcript', this.record.transcript);
+  }
+
+  private handleDrop(reason: string) {
+    this.connection = null;
+    this.emit('interrupted');
+    this.reconnector?.handleDrop(reason);
+  }
+
+  private async connect(generation: number) {
+    const id = ++this.connectionId;
+    const isLive = () => generation === this.generation && id === this.connectionId;
+    const setup = this.setup;
+    if (this.activeSetup && setupChanged(setup, this.activeSetup)) {
+      this.resumeHandle = undefined;
+      this.seed = handoverTurns(this.record?.transcript ?? []);
+    }
+    this.activeSetup = setup;
+    this.isModelTurn = false;
+    const dialedAt = this.now();
+
+    const connectionPromise = this.transport.connect({
+      model: setup.model,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          languageCode: setup.languageCode || undefined,
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: setup.voiceName } },
+        },
+        systemInstruction: setup.systemInstruction,
+        tools: [{ functionDeclarations: this.tools.declarations(setup.isMouseMode) }],
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        sessionResumption: { handle: this.resumeHandle },
+      },
+    }, {
+      onopen: () => {
+        if (!isLive()) return;
+        this.metrics.recordConnect(this.now() - dialedAt);
+        this.setState({ status: SessionStatus.CONNECTED, reconnectAttempt: 0 });
+        this.reconnector?.connected();
+        if (this.hasOpened) return;
+        this.hasOpened = true;
+        this.emit('ready');
+      },
+      onmessage: (message) => { if (isLive()) this.handleMessage(message, setup, connectionPromise, isLive); },
+      onerror: (e) => { if (isLive()) this.handleDrop(e.message || 'Connection error'); },
+      onclose: (e) => { if (isLive()) this.handleDrop(e.reason || `Connection closed (code ${e.code})`); },
+    });
+
+    const connection = await connectionPromise;
+    if (!isLive()) { connection.close(); return; }
+    this.connection = connection;
+    if (this.seed.length) {
+      // Context only: turnComplete false keeps the model from answering the replayed conversation.
+      connection.sendClientContent({ turns: this.seed, turnComplete: false });
+      this.seed = [];
+    }
+    // The setup may have changed while this connection was being made.
+    if (setupChanged(this.setup, setup)) this.requestHandover();
+  }
+
+  private handleMessage(message: LiveServerMessage, setup: LiveSetup, connection: Promise<LiveConnection>, isLive: () => boolean) {
+    const resumption = message.sessionResumptionUpdate;
+    if (resumption?.resumable && resumption.newHandle) this.resumeHandle = resumption.newHandle;
+    if (message.goAway) {
+      this.handleDrop('Server is closing the connection');
+      connection.then(c => c.close());
+      return;
+    }
+
+    if (message.toolCall || message.serverContent?.modelTurn) this.isModelTurn = true;
+
+    // Not awaited: audio and transcription in the same message shouldn't wait for slow tools.
+    if (message.toolCall?.functionCalls?.length) {
+      this.tools.dispatch(message, setup.isMouseMode).then(functionResponses => {
+        // A connection that dropped while the tools ran can't take the response any more.
+        if (isLive()) connection.then(c => { if (c === this.connection) c.sendToolResponse({ functionResponses }); });
+      });
+    }
+
+    const parts = message.serverContent?.modelTurn?.parts;
+    if (parts) {
+      const text = parts.map(p => p.text ?? '').join('');
+      if (text) this.emit('modelText', text, setup);
+      // Before turnComplete below, so the last chunk is queued before playback drains.
+      for (const part of parts) {
+        const audio = part.inlineData;
+        if (audio?.data && (!audio.mimeType || audio.mimeType.startsWith('audio/'))) {
+          this.metrics.recordModelAudio();
+          this.emit('audio', audio.data, audio.mimeType ?? '');
+        }
+      }
+    }
+
+    const inputText = message.serverContent?.inputTranscription?.text;
+    if (inputText) {
+      this.updateTranscript(entries => appendChunk(entries, 'user', inputText, this.now()));
+      this.emit('transcription', 'user', inputText);
+    }
+    const outputText = message.serverContent?.outputTranscription?.text;
+    if (outputText) {
+      this.updateTranscript(entries => appendChunk(entries, 'model', outputText, this.now()));
+      this.emit('transcription', 'model', outputText);
+    }
+    if (message.serverContent?.turnComplete) {
+      this.updateTranscript(completeTurn);
+      this.saveRecord();
+      this.emit('turnComplete');
+    }
+
+    if (message.serverContent?.interrupted) this.emit('interrupted');
+    if (message.serverContent?.turnComplete || message.serverContent?.interrupted) {
+      this.isModelTurn = false;
+      if (this.handoverTimer !== null) this.handOver();
+    }
+  }
+
+  private clearHandover() {
+    if (this.handoverTimer !== null) clearTimeout(this.handoverTimer);
+    this.handoverTimer = null;
+  }
+
+  private handOver() {
+    this.clearHandover();
+    if (!this.setup || !this.activeSetup || !setupChanged(this.setup, this.activeSetup)) return;
+    const previous = this.connection;
+    this.connection = null;
+    this.emit('interrupted');
+    // connect() bumps connectionId first, so the old connection's close is ignored.
+    this.connect(this.generation).catch(err => this.handleDrop(err?.message || 'Could not switch the session'));
+    previous?.close();
+  }
+
+  // Waits for the model to finish speaking (e.g. the reply to a set_mouse_control call) before cutting over.
+  private requestHandover() {
+    if (!this.setup || !this.activeSetup || !setupChanged(this.setup, this.activeSetup)) {
+      // Toggled back before the switch happened.
+      this.clearHandover();
+      return;
+    }
+    // A connection still being made picks up the new setup once it opens; a reconnect uses it directly.
+    if (!this.connection) return;
+    if (!this.isModelTurn) this.handOver();
+    else if (this.handoverTimer === null) this.handoverTimer = setTimeout(() => this.handOver(), HANDOVER_TURN_WAIT_MS);
+  }
+}
@@ -0,0 +1,41 @@
+import {
+  LiveConnectConfig,
+  LiveServerMessage,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+} from '@google/genai';
+import { createLiveClient } from './credentials';
+
+export interface LiveConnectParams {
+  model: string;
+  config: LiveConnectConfig;
+}
+
+// Narrower than the SDK's callbacks so a fake can raise errors and closes without DOM events.
+export interface LiveTransportCallbacks {
+  onopen: () => void;
+  onmessage: (message: LiveServerMessage) => void;
+  onerror: (e: { message?: string }) => void;
+  onclose: (e: { reason?: string; code?: number }) => void;
+}
+
+// The subset of the SDK's Session the app uses.
+export interface LiveConnection {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  close(): void;
+}
+
+export interface LiveTransport {
+  connect(params: LiveConnectParams, callbacks: LiveTransportCallbacks): Promise<LiveConnection>;
+}
+
+// Credentials are fetched per connection because ephemeral tokens are single-use.
+export const genaiTransport: LiveTransport = {
+  async connect({ model, config }, callbacks) {
+    const ai = await createLiveClient();
+    return ai.live.connect({ model, config, callbacks });
+  },
+};
@@ -0,0 +1,247 @@
+import type { Messages } from '../i18n';
+
+export const ar: Messages = {
+  actions: {
+    'toggle-session': 'بدء الجلسة أو إنهاؤها',
+    'end-session': 'إنهاء الجلسة',
+    'toggle-mute': 'كتم الميكروفون أو تشغيله',
+    'cycle-input-mode': 'تبديل وضع إدخال الميكروفون',
+    'toggle-camera': 'تشغيل الكاميرا أو إيقافها',
+    'flip-camera': 'قلب الكاميرا',
+    'toggle-screen-share': 'مشاركة الشاشة',
+    'toggle-recording': 'بدء التسجيل أو إيقافه',
+    'toggle-mouse-mode': 'تبديل وضع الفأرة',
+    'toggle-devices': 'اختيار الأجهزة',
+    'toggle-transcript': 'إظهار النص المكتوب أو إخفاؤه',
+    'toggle-macros': 'فتح وحدات الماكرو',
+    'toggle-history': 'فتح سجل الجلسات',
+    'toggle-settings': 'فتح الإعدادات',
+    'toggle-metrics': 'إظهار مقاييس الجلسة',
+    'command-palette': 'لوحة الأوامر',
+  },
+  commandActions: {
+    move: 'تحريك',
+    left_click: 'نقرة يسرى',
+    right_click: 'نقرة يمنى',
+    double_click: 'نقرة مزدوجة',
+    mouse_down: 'ضغط الزر',
+    mouse_up: 'تحرير الزر',
+    scroll: 'تمرير',
+    type_text: 'كتابة نص',
+    key_combo: 'اختصار لوحة المفاتيح',
+    open: 'فتح',
+    none: 'لا شيء',
+  },
+  hudStates: { pending: 'جارٍ التنفيذ', confirm: 'تأكيد', success: 'تم التنفيذ', error: 'فشل', blocked: 'محظور' },
+  statuses: { IDLE: 'غير متصل', CONNECTING: 'جارٍ الاتصال', CONNECTED: 'متصل', RECONNECTING: 'جارٍ إعادة الاتصال', ERROR: 'خطأ' },
+  inputModes: { 'always-on': 'يعمل دائمًا', vad: 'يعمل بالصوت', 'push-to-talk': 'اضغط للتحدث' },
+  app: {
+    macroStep: (macro, index, total) => `${macro} · الخطوة ${index} من ${total}`,
+    upNext: 'التالي',
+    updateAvailable: 'يتوفر إصدار جديد.',
+    reload: 'إعادة التحميل',
+    later: 'لاحقًا',
+    endSessionFirst: 'أنهِ الجلسة أولًا',
+    micMuted: 'الميكروفون مكتوم',
+    listening: 'يستمع',
+    holdToTalk: key => `اضغط مطولًا على ${key} للتحدث`,
+    recordingSession: 'جارٍ تسجيل الجلسة',
+    recordingMacro: 'جارٍ تسجيل الماكرو',
+    offline: 'غير متصل بالإنترنت',
+    offlineBadge: 'غير متصل · تحتاج الجلسات إلى اتصال',
+    reconnecting: attempt => `جارٍ إعادة الاتصال · المحاولة ${attempt}`,
+    enterApiKey: 'إدخال مفتاح API',
+  },
+  toolbar: {
+    label: 'عناصر التحكم في الجلسة',
+    status: status => `الحالة: ${status}`,
+    startSession: 'بدء الجلسة',
+    endSession: 'إنهاء الجلسة',
+    mute: 'كتم الميكروفون',
+    inputMode: mode => `الإدخال: ${mode}`,
+    camera: 'الكاميرا',
+    shareScreen: 'مشاركة الشاشة',
+    record: 'تسجيل الجلسة',
+    devices: 'الأجهزة',
+    mouseMode: 'وضع الفأرة',
+    transcript: 'النص المكتوب',
+    macros: 'الماكرو',
+    macrosRecording: 'الماكرو (جارٍ التسجيل)',
+    history: 'سجل الجلسات',
+    settings: 'الإعدادات',
+  },
+  announce: {
+    connecting: 'جارٍ الاتصال',
+    connected: 'متصل',
+    reconnected: 'أُعيد الاتصال',
+    reconnecting: attempt => `انقطع الاتصال، جارٍ إعادة الاتصال (المحاولة ${attempt})`,
+    error: message => `خطأ في الجلسة: ${message}`,
+    ended: 'انتهت الجلسة',
+    muted: 'تم كتم الميكروفون',
+    unmuted: 'الميكروفون يعمل',
+    inputMode: mode => `الإدخال: ${mode}`,
+  },
+  palette: {
+    title: 'لوحة الأوامر',
+    search: 'البحث عن إجراء',
+    placeholder: 'اكتب إجراءً…',
+    empty: 'لا توجد إجراءات مطابقة.',
+    list: 'الإجراءات',
+  },
+  devices: {
+    title: 'الأجهزة',
+    close: 'إغلاق الأجهزة',
+    microphone: 'الميكروفون',
+    speaker: 'مكبر الصوت',
+    camera: 'الكاميرا',
+    systemDefault: 'الافتراضي للنظام',
+    noOutputSelection: 'لا يتيح هذا المتصفح اختيار جهاز إخراج الصوت.',
+  },
+  transcript: { title: 'النص المكتوب', empty: 'لم يُقل شيء بعد.' },
+  recording: {
+    title: duration => `التسجيل · ${duration}`,
+    label: 'تسجيل مكتمل',
+    video: 'فيديو',
+    downloadVideo: 'تنزيل الفيديو',
+    downloadWebm: 'تنزيل الصوت بصيغة WebM',
+    downloadWav: 'تنزيل الصوت بصيغة WAV',
+    subtitles: 'الترجمة',
+    downloadSubtitles: 'تنزيل الترجمة',
+    discard: 'تجاهل',
+    discardRecording: 'تجاهل التسجيل',
+    exportFailed: message => `تعذّر التصدير: ${message}`,
+    micMissing: 'تعذّر تسجيل الميكروفون في هذا المتصفح؛ يحتوي التسجيل على صوت النموذج فقط.',
+  },
+  settings: {
+    title: 'الإعدادات',
+    close: 'إغلاق الإعدادات',
+    language: 'اللغة',
+    languageHint: 'تحدد لغة التحدث وصوتًا مناسبًا والتعليمات المدمجة.',
+    apiKey: 'مفتاح API',
+    usingOwnKey: 'يُستخدم مفتاحك في علامة التبويب هذه',
+    forget: 'نسيان',
+    apiKeyPlaceholder: 'الصق مفتاح Gemini API',
+    use: 'استخدام',
+    apiKeyHint: 'يُحفظ في تخزين الجلسة حتى إغلاق علامة التبويب. بدون مفتاح تستخدم الجلسات رموزًا مؤقتة من خادم الرموز.',
+    voice: 'الصوت',
+    model: 'النموذج',
+    defaultMode: 'الوضع الافتراضي',
+    modes: { mouse: 'الفأرة', normal: 'عادي' },
+    microphoneInput: 'إدخال الميكروفون',
+    inputModeOptions: { 'always-on': 'يعمل دائمًا', vad: 'يعمل بالصوت (يتخطى الصمت)', 'push-to-talk': 'اضغط للتحدث' },
+    pressKey: 'اضغط على مفتاح…',
+    talkKey: key => `مفتاح التحدث: ${key}`,
+    shortcuts: 'اختصارات لوحة المفاتيح',
+    pressKeys: 'اضغط على المفاتيح…',
+    shortcutUnset: 'غير معيّن',
+    shortcutButton: (action, key) => `${action}: ${key}. اضغط للتغيير.`,
+    shortcutsHint: 'تُتجاهل الاختصارات أثناء الكتابة في حقل. يمسح مفتاح Backspace الاختصار؛ ويوقف Ctrl+Shift+X التحكم بالفأرة دائمًا.',
+    instructions: 'تعليمات النظام',
+    newPreset: 'جديد',
+    presetToEdit: 'التعليمات المراد تعديلها',
+    presetName: 'الاسم',
+    newPresetName: 'تعليمات جديدة',
+    usedForMouse: 'مستخدمة في وضع الفأرة',
+    useForMouse: 'استخدام في وضع الفأرة',
+    usedForNormal: 'مستخدمة في الوضع العادي',
+    useForNormal: 'استخدام في الوضع العادي',
+    reset: 'إعادة تعيين',
+    delete: 'حذف',
+    frames: 'لقطات الكاميرا والشاشة',
+    interval: 'الفاصل الزمني',
+    jpegQuality: 'جودة JPEG',
+    resolution: 'الدقة',
+    policy: 'سياسة الإجراءات',
+    allowedApps: 'التطبيقات المسموح بها (الفراغ يسمح بأي تطبيق غير محظور)',
+    blockedApps: 'التطبيقات المحظورة',
+    confirmBefore: 'طلب التأكيد قبل',
+    maxClicks: seconds => `أقصى عدد نقرات كل ${seconds} ث`,
+    defaults: 'الافتراضيات',
+    restartNote: 'الحفظ يعيد تشغيل الجلسة',
+    save: 'حفظ',
+  },
+  macros: {
+    title: 'الماكرو',
+    close: 'إغلاق الماكرو',
+    recordingHint: 'جارٍ التسجيل… قل "أوقف التسجيل باسم" ثم اسمًا للحفظ.',
+    hint: 'في وضع الفأرة قل "ابدأ التسجيل"، ونفّذ الخطوات، ثم "أوقف التسجيل باسم فتح البريد". قل "شغّل فتح البريد" لإعادة تشغيله.',
+    discard: 'تجاهل',
+    empty: 'لا توجد وحدات ماكرو محفوظة بعد.',
+    steps: count => `${count} خطوات`,
+    name: 'اسم الماكرو',
+    stepsJson: 'خطوات الماكرو بصيغة JSON',
+    nameRequired: 'لا يمكن أن يكون الاسم فارغًا',
+    save: 'حفظ',
+    cancel: 'إلغاء',
+    stop: 'إيقاف',
+    run: 'تشغيل',
+    edit: 'تعديل JSON',
+    delete: 'حذف',
+  },
+  history: {
+    title: 'سجل الجلسات',
+    close: 'إغلاق السجل',
+    search: 'البحث في سجل الجلسات',
+    searchPlaceholder: 'البحث في النصوص والأوامر',
+    readFailed: message => `تعذّرت قراءة السجل: ${message}`,
+    exportAllMarkdown: 'تصدير الكل بصيغة Markdown',
+    exportAllJson: 'تصدير الكل بصيغة JSON',
+    empty: 'لم يُعثر على جلسات.',
+    summary: (turns, commands) => `${turns} أدوار · ${commands} أوامر`,
+    you: 'أنت',
+    model: 'النموذج',
+    exportMarkdown: 'تصدير MD',
+    exportJson: 'تصدير JSON',
+    delete: 'حذف',
+  },
+  metrics: {
+    title: 'مقاييس الجلسة',
+    close: 'إغلاق المقاييس',
+    collapse: 'طي المقاييس',
+    expand: 'توسيع المقاييس',
+    connect: 'زمن الاتصال',
+    response: 'زمن الاستجابة',
+    latency: (last, p50, p95, count) => `الأخير ${last} · p50 ${p50} · p95 ${p95} · n=${count}`,
+    media: 'اللقطات المرسلة',
+    mediaSent: (frames, size) => `${frames} لقطة · ${size}`,
+    commands: 'أوامر الفأرة',
+    commandCounts: (parsed, failed) => `${parsed} صالحة · ${failed} فاشلة`,
+    export: 'تصدير JSON',
+    localOnly: 'تُحفظ على هذا الجهاز فقط.',
+  },
+  policy: {
+    blocked: app => `فتح "${app}" محظور بموجب السياسة`,
+    notAllowed: app => `"${app}" ليس ضمن قائمة التطبيقات المسموح بها`,
+    clickLimit: (max, seconds) => `تم بلوغ حد النقرات (${max} كل ${seconds} ث)`,
+    confirm: action => `قل "نعم" أو اضغط Y لتنفيذ: ${action}`,
+    mouseOff: 'التحكم بالفأرة متوقف',
+    cancelled: 'ألغاه المستخدم',
+    needsScreen: 'يتطلب التصويب على موضع مشاركة الشاشة كاملة',
+    noExecutor: 'لا يتوفر منفذ للأوامر',
+  },
+  instructions: {
+    mouse: `أنت وحدة تحكم رقمية بالفأرة للنظام تعمل بالذكاء الاصطناعي.
+دورك أن تكون عقل فأرة افتراضية تتحكم في نظام التشغيل.
+نفّذ إجراءات الفأرة باستدعاء الأدوات move و left_click و right_click و double_click و mouse_down و mouse_up و scroll و open.
+استخدم type_text للإملاء (مثل "اكتب: مرحبا بالعالم") و key_combo للاختصارات مثل ctrl+s أو alt+tab. للسحب والإفلات استدعِ mouse_down على المصدر ثم mouse_up على موضع الإفلات.
+عند مشاركة الشاشة صوّب نحو ما تراه بتمرير x/y أو مربع بإحداثيات من 0 إلى 1000 مع اسم العنصر.
+يتحدث المستخدم بالعربية: "أعلى" و"أسفل" و"يسار" و"يمين" تقابل الاتجاهات up و down و left و right. تبقى وسائط الأدوات بالإنجليزية دائمًا.
+إذا رُفض استدعاء أداة فاقرأ الخطأ واستدعها مجددًا بوسائط مصححة.
+استخدم أدوات الماكرو عندما يطلب المستخدم بدء التسجيل أو إيقافه، أو تشغيل ماكرو محفوظ، أو معرفة الماكرو الموجودة.
+أجب دائمًا بالعربية.`,
+    normal: `أنت مساعد ودود ومفيد.
+تحدث بشكل طبيعي وساعد المستخدم. اجعل الردود قصيرة وبأسلوب المحادثة. أجب دائمًا بالعربية.`,
+    language: 'أجب دائمًا بالعربية.',
+    presetNames: { mouse: 'وحدة التحكم بالفأرة', normal: 'المساعد الودود' },
+  },
+  directions: {
+    up: ['أعلى', 'فوق', 'للأعلى', 'إلى الأعلى', 'لفوق'],
+    down: ['أسفل', 'تحت', 'للأسفل', 'إلى الأسفل', 'لتحت'],
+    left: ['يسار', 'اليسار', 'لليسار', 'إلى اليسار', 'شمال'],
+    right: ['يمين', 'اليمين', 'لليمين', 'إلى اليمين'],
+  },
+  answers: {
+    yes: ['نعم', 'أكد', 'تأكيد', 'موافق', 'نفذ'],
+    no: ['لا', 'إلغاء', 'ألغِ', 'توقف'],
+  },
+};
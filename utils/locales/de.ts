@@ -0,0 +1,247 @@
+import type { Messages } from '../i18n';
+
+export const de: Messages = {
+  actions: {
+    'toggle-session': 'Sitzung starten oder beenden',
+    'end-session': 'Sitzung beenden',
+    'toggle-mute': 'Mikrofon stumm- oder einschalten',
+    'cycle-input-mode': 'Mikrofon-Eingabemodus wechseln',
+    'toggle-camera': 'Kamera ein- oder ausschalten',
+    'flip-camera': 'Kamera wechseln',
+    'toggle-screen-share': 'Bildschirm teilen',
+    'toggle-recording': 'Aufnahme starten oder stoppen',
+    'toggle-mouse-mode': 'Mausmodus umschalten',
+    'toggle-devices': 'Geräte auswählen',
+    'toggle-transcript': 'Transkript ein- oder ausblenden',
+    'toggle-macros': 'Makros öffnen',
+    'toggle-history': 'Sitzungsverlauf öffnen',
+    'toggle-settings': 'Einstellungen öffnen',
+    'toggle-metrics': 'Sitzungsmetriken anzeigen',
+    'command-palette': 'Befehlspalette',
+  },
+  commandActions: {
+    move: 'bewegen',
+    left_click: 'Linksklick',
+    right_click: 'Rechtsklick',
+    double_click: 'Doppelklick',
+    mouse_down: 'Taste drücken',
+    mouse_up: 'Taste loslassen',
+    scroll: 'scrollen',
+    type_text: 'Text tippen',
+    key_combo: 'Tastenkombination',
+    open: 'öffnen',
+    none: 'keine',
+  },
+  hudStates: { pending: 'Wird ausgeführt', confirm: 'Bestätigen', success: 'Ausgeführt', error: 'Fehlgeschlagen', blocked: 'Blockiert' },
+  statuses: { IDLE: 'Nicht verbunden', CONNECTING: 'Verbinde', CONNECTED: 'Verbunden', RECONNECTING: 'Verbinde erneut', ERROR: 'Fehler' },
+  inputModes: { 'always-on': 'Immer an', vad: 'Sprachaktiviert', 'push-to-talk': 'Drücken zum Sprechen' },
+  app: {
+    macroStep: (macro, index, total) => `${macro} · Schritt ${index} von ${total}`,
+    upNext: 'Als Nächstes',
+    updateAvailable: 'Eine neue Version ist verfügbar.',
+    reload: 'Neu laden',
+    later: 'Später',
+    endSessionFirst: 'Beende zuerst die Sitzung',
+    micMuted: 'Mikro stumm',
+    listening: 'Hört zu',
+    holdToTalk: key => `${key} halten zum Sprechen`,
+    recordingSession: 'Sitzung wird aufgenommen',
+    recordingMacro: 'Makro wird aufgenommen',
+    offline: 'Offline',
+    offlineBadge: 'Offline · Sitzungen brauchen eine Verbindung',
+    reconnecting: attempt => `Verbinde erneut · Versuch ${attempt}`,
+    enterApiKey: 'API-Schlüssel eingeben',
+  },
+  toolbar: {
+    label: 'Sitzungssteuerung',
+    status: status => `Status: ${status}`,
+    startSession: 'Sitzung starten',
+    endSession: 'Sitzung beenden',
+    mute: 'Mikrofon stummschalten',
+    inputMode: mode => `Eingabe: ${mode}`,
+    camera: 'Kamera',
+    shareScreen: 'Bildschirm teilen',
+    record: 'Sitzung aufnehmen',
+    devices: 'Geräte',
+    mouseMode: 'Mausmodus',
+    transcript: 'Transkript',
+    macros: 'Makros',
+    macrosRecording: 'Makros (Aufnahme läuft)',
+    history: 'Sitzungsverlauf',
+    settings: 'Einstellungen',
+  },
+  announce: {
+    connecting: 'Verbinde',
+    connected: 'Verbunden',
+    reconnected: 'Wieder verbunden',
+    reconnecting: attempt => `Verbindung verloren, verbinde erneut (Versuch ${attempt})`,
+    error: message => `Sitzungsfehler: ${message}`,
+    ended: 'Sitzung beendet',
+    muted: 'Mikrofon stumm',
+    unmuted: 'Mikrofon an',
+    inputMode: mode => `Eingabe: ${mode}`,
+  },
+  palette: {
+    title: 'Befehlspalette',
+    search: 'Aktionen suchen',
+    placeholder: 'Aktion eingeben…',
+    empty: 'Keine passenden Aktionen.',
+    list: 'Aktionen',
+  },
+  devices: {
+    title: 'Geräte',
+    close: 'Geräte schließen',
+    microphone: 'Mikrofon',
+    speaker: 'Lautsprecher',
+    camera: 'Kamera',
+    systemDefault: 'Systemstandard',
+    noOutputSelection: 'Dieser Browser kann das Ausgabegerät nicht wählen.',
+  },
+  transcript: { title: 'Transkript', empty: 'Noch nichts gesagt.' },
+  recording: {
+    title: duration => `Aufnahme · ${duration}`,
+    label: 'Fertige Aufnahme',
+    video: 'Video',
+    downloadVideo: 'Video herunterladen',
+    downloadWebm: 'WebM-Audio herunterladen',
+    downloadWav: 'WAV-Audio herunterladen',
+    subtitles: 'Untertitel',
+    downloadSubtitles: 'Untertitel herunterladen',
+    discard: 'Verwerfen',
+    discardRecording: 'Aufnahme verwerfen',
+    exportFailed: message => `Export fehlgeschlagen: ${message}`,
+    micMissing: 'Dein Mikrofon konnte in diesem Browser nicht aufgenommen werden; die Aufnahme enthält nur die Stimme des Modells.',
+  },
+  settings: {
+    title: 'Einstellungen',
+    close: 'Einstellungen schließen',
+    language: 'Sprache',
+    languageHint: 'Legt die gesprochene Sprache, eine passende Stimme und die eingebauten Anweisungen fest.',
+    apiKey: 'API-Schlüssel',
+    usingOwnKey: 'Dein Schlüssel wird in diesem Tab verwendet',
+    forget: 'Vergessen',
+    apiKeyPlaceholder: 'Gemini-API-Schlüssel einfügen',
+    use: 'Verwenden',
+    apiKeyHint: 'Bleibt im Sitzungsspeicher, bis der Tab geschlossen wird. Ohne Schlüssel nutzen Sitzungen kurzlebige Tokens vom Token-Proxy.',
+    voice: 'Stimme',
+    model: 'Modell',
+    defaultMode: 'Standardmodus',
+    modes: { mouse: 'Maus', normal: 'Normal' },
+    microphoneInput: 'Mikrofoneingabe',
+    inputModeOptions: { 'always-on': 'Immer an', vad: 'Sprachaktiviert (Stille überspringen)', 'push-to-talk': 'Drücken zum Sprechen' },
+    pressKey: 'Taste drücken…',
+    talkKey: key => `Sprechtaste: ${key}`,
+    shortcuts: 'Tastenkürzel',
+    pressKeys: 'Tasten drücken…',
+    shortcutUnset: 'nicht belegt',
+    shortcutButton: (action, key) => `${action}: ${key}. Zum Ändern drücken.`,
+    shortcutsHint: 'Beim Tippen in einem Feld werden Kürzel ignoriert. Rücktaste löscht eines; Strg+Umschalt+X beendet die Maussteuerung immer.',
+    instructions: 'Systemanweisungen',
+    newPreset: 'Neu',
+    presetToEdit: 'Zu bearbeitende Vorlage',
+    presetName: 'Name der Vorlage',
+    newPresetName: 'Neue Vorlage',
+    usedForMouse: 'Für Mausmodus verwendet',
+    useForMouse: 'Für Mausmodus verwenden',
+    usedForNormal: 'Für Normalmodus verwendet',
+    useForNormal: 'Für Normalmodus verwenden',
+    reset: 'Zurücksetzen',
+    delete: 'Löschen',
+    frames: 'Kamera- und Bildschirmbilder',
+    interval: 'Intervall',
+    jpegQuality: 'JPEG-Qualität',
+    resolution: 'Auflösung',
+    policy: 'Aktionsrichtlinie',
+    allowedApps: 'Erlaubte Anwendungen (leer erlaubt alle nicht blockierten)',
+    blockedApps: 'Blockierte Anwendungen',
+    confirmBefore: 'Bestätigung verlangen vor',
+    maxClicks: seconds => `Max. Klicks pro ${seconds} s`,
+    defaults: 'Standard',
+    restartNote: 'Speichern startet die Sitzung neu',
+    save: 'Speichern',
+  },
+  macros: {
+    title: 'Makros',
+    close: 'Makros schließen',
+    recordingHint: 'Aufnahme läuft… sag „Aufnahme beenden als“ und einen Namen zum Speichern.',
+    hint: 'Sag im Mausmodus „Aufnahme starten“, führe die Schritte aus und dann „Aufnahme beenden als Mail öffnen“. Mit „Mail öffnen ausführen“ wird sie wiederholt.',
+    discard: 'Verwerfen',
+    empty: 'Noch keine Makros gespeichert.',
+    steps: count => `${count} Schritte`,
+    name: 'Makroname',
+    stepsJson: 'Makroschritte als JSON',
+    nameRequired: 'Der Name darf nicht leer sein',
+    save: 'Speichern',
+    cancel: 'Abbrechen',
+    stop: 'Stopp',
+    run: 'Ausführen',
+    edit: 'JSON bearbeiten',
+    delete: 'Löschen',
+  },
+  history: {
+    title: 'Sitzungsverlauf',
+    close: 'Verlauf schließen',
+    search: 'Sitzungsverlauf durchsuchen',
+    searchPlaceholder: 'Transkripte und Befehle durchsuchen',
+    readFailed: message => `Verlauf konnte nicht gelesen werden: ${message}`,
+    exportAllMarkdown: 'Alle als Markdown exportieren',
+    exportAllJson: 'Alle als JSON exportieren',
+    empty: 'Keine Sitzungen gefunden.',
+    summary: (turns, commands) => `${turns} Beiträge · ${commands} Befehle`,
+    you: 'Du',
+    model: 'Modell',
+    exportMarkdown: 'MD exportieren',
+    exportJson: 'JSON exportieren',
+    delete: 'Löschen',
+  },
+  metrics: {
+    title: 'Sitzungsmetriken',
+    close: 'Metriken schließen',
+    collapse: 'Metriken einklappen',
+    expand: 'Metriken ausklappen',
+    connect: 'Verbindungszeit',
+    response: 'Antwortlatenz',
+    latency: (last, p50, p95, count) => `zuletzt ${last} · p50 ${p50} · p95 ${p95} · n=${count}`,
+    media: 'Gesendete Bilder',
+    mediaSent: (frames, size) => `${frames} Bilder · ${size}`,
+    commands: 'Mausbefehle',
+    commandCounts: (parsed, failed) => `${parsed} gültig · ${failed} fehlerhaft`,
+    export: 'JSON exportieren',
+    localOnly: 'Bleibt nur auf diesem Gerät.',
+  },
+  policy: {
+    blocked: app => `Das Öffnen von „${app}“ ist durch die Richtlinie gesperrt`,
+    notAllowed: app => `„${app}“ steht nicht auf der Liste erlaubter Anwendungen`,
+    clickLimit: (max, seconds) => `Klicklimit erreicht (${max} pro ${seconds} s)`,
+    confirm: action => `Sag „bestätigen“ oder drück Y für: ${action}`,
+    mouseOff: 'Die Maussteuerung ist ausgeschaltet',
+    cancelled: 'Vom Benutzer abgebrochen',
+    needsScreen: 'Zum Zielen auf eine Position muss der ganze Bildschirm geteilt werden',
+    noExecutor: 'Kein Ausführungsdienst verfügbar',
+  },
+  instructions: {
+    mouse: `Du bist ein KI-gestützter digitaler Maus-Controller für das System.
+Du bist das Gehirn einer virtuellen Maus, die das BETRIEBSSYSTEM steuert.
+Führe Mausaktionen aus, indem du die Tools move, left_click, right_click, double_click, mouse_down, mouse_up, scroll und open aufrufst.
+Nutze type_text zum Diktieren (z. B. „tippe: hallo Welt“) und key_combo für Kürzel wie ctrl+s oder alt+tab. Für Drag-and-drop rufe mouse_down an der Quelle und mouse_up am Ziel auf.
+Wenn der Bildschirm geteilt wird, ziele auf das, was du siehst, indem du x/y oder einen Rahmen in 0-1000-Koordinaten und den Namen des Elements übergibst.
+Der Nutzer spricht Deutsch: „hoch“, „runter“, „links“ und „rechts“ entsprechen den Richtungen up, down, left und right. Tool-Argumente bleiben immer Englisch.
+Wird ein Tool-Aufruf abgelehnt, lies den Fehler und rufe es mit korrigierten Argumenten erneut auf.
+Nutze die Makro-Tools, wenn der Nutzer eine Aufnahme starten oder beenden, ein gespeichertes Makro ausführen oder die vorhandenen Makros wissen möchte.
+Antworte immer auf Deutsch.`,
+    normal: `Du bist ein hilfsbereiter, freundlicher Assistent.
+Sprich natürlich und hilf dem Nutzer. Halte die Antworten locker und kurz. Antworte immer auf Deutsch.`,
+    language: 'Antworte immer auf Deutsch.',
+    presetNames: { mouse: 'Maus-Controller', normal: 'Freundlicher Assistent' },
+  },
+  directions: {
+    up: ['hoch', 'oben', 'nach oben', 'rauf', 'aufwärts'],
+    down: ['runter', 'unten', 'nach unten', 'herunter', 'abwärts'],
+    left: ['links', 'nach links'],
+    right: ['rechts', 'nach rechts'],
+  },
+  answers: {
+    yes: ['ja', 'bestätigen', 'bestätigt', 'mach es', 'los'],
+    no: ['nein', 'abbrechen', 'stopp', 'halt'],
+  },
+};
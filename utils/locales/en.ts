@@ -0,0 +1,245 @@
+import type { Messages } from '../i18n';
+
+export const en: Messages = {
+  actions: {
+    'toggle-session': 'Start or end session',
+    'end-session': 'End session',
+    'toggle-mute': 'Mute or unmute microphone',
+    'cycle-input-mode': 'Switch microphone input mode',
+    'toggle-camera': 'Turn camera on or off',
+    'flip-camera': 'Flip camera',
+    'toggle-screen-share': 'Share screen',
+    'toggle-recording': 'Start or stop recording',
+    'toggle-mouse-mode': 'Toggle mouse mode',
+    'toggle-devices': 'Choose devices',
+    'toggle-transcript': 'Show or hide transcript',
+    'toggle-macros': 'Open macros',
+    'toggle-history': 'Open session history',
+    'toggle-settings': 'Open settings',
+    'toggle-metrics': 'Show session metrics',
+    'command-palette': 'Command palette',
+  },
+  commandActions: {
+    move: 'move',
+    left_click: 'left click',
+    right_click: 'right click',
+    double_click: 'double click',
+    mouse_down: 'mouse down',
+    mouse_up: 'mouse up',
+    scroll: 'scroll',
+    type_text: 'type text',
+    key_combo: 'key combo',
+    open: 'open',
+    none: 'none',
+  },
+  hudStates: { pending: 'Executing', confirm: 'Confirm', success: 'Executed', error: 'Failed', blocked: 'Blocked' },
+  statuses: { IDLE: 'Not connected', CONNECTING: 'Connecting', CONNECTED: 'Connected', RECONNECTING: 'Reconnecting', ERROR: 'Error' },
+  inputModes: { 'always-on': 'Always On', vad: 'Voice Activated', 'push-to-talk': 'Push to Talk' },
+  app: {
+    macroStep: (macro, index, total) => `${macro} · step ${index} of ${total}`,
+    upNext: 'Up next',
+    updateAvailable: 'A new version is available.',
+    reload: 'Reload',
+    later: 'Later',
+    endSessionFirst: 'End the session first',
+    micMuted: 'Mic Muted',
+    listening: 'Listening',
+    holdToTalk: key => `Hold ${key} to talk`,
+    recordingSession: 'Recording session',
+    recordingMacro: 'Recording macro',
+    offline: 'Offline',
+    offlineBadge: 'Offline · sessions need a connection',
+    reconnecting: attempt => `Reconnecting · attempt ${attempt}`,
+    enterApiKey: 'Enter API key',
+  },
+  toolbar: {
+    label: 'Session controls',
+    status: status => `Status: ${status}`,
+    startSession: 'Start session',
+    endSession: 'End session',
+    mute: 'Mute microphone',
+    inputMode: mode => `Input: ${mode}`,
+    camera: 'Camera',
+    shareScreen: 'Share screen',
+    record: 'Record session',
+    devices: 'Devices',
+    mouseMode: 'Mouse mode',
+    transcript: 'Transcript',
+    macros: 'Macros',
+    macrosRecording: 'Macros (recording)',
+    history: 'Session history',
+    settings: 'Settings',
+  },
+  announce: {
+    connecting: 'Connecting',
+    connected: 'Connected',
+    reconnected: 'Reconnected',
+    reconnecting: attempt => `Connection lost, reconnecting (attempt ${attempt})`,
+    error: message => `Session error: ${message}`,
+    ended: 'Session ended',
+    muted: 'Microphone muted',
+    unmuted: 'Microphone on',
+    inputMode: mode => `Input: ${mode}`,
+  },
+  palette: {
+    title: 'Command palette',
+    search: 'Search actions',
+    placeholder: 'Type an action…',
+    empty: 'No matching actions.',
+    list: 'Actions',
+  },
+  devices: {
+    title: 'Devices',
+    close: 'Close devices',
+    microphone: 'Microphone',
+    speaker: 'Speaker',
+    camera: 'Camera',
+    systemDefault: 'System default',
+    noOutputSelection: "This browser can't choose the output device.",
+  },
+  transcript: { title: 'Transcript', empty: 'Nothing said yet.' },
+  recording: {
+    title: duration => `Recording · ${duration}`,
+    label: 'Finished recording',
+    video: 'Video',
+    downloadVideo: 'Download video',
+    downloadWebm: 'Download WebM audio',
+    downloadWav: 'Download WAV audio',
+    subtitles: 'Subtitles',
+    downloadSubtitles: 'Download subtitles',
+    discard: 'Discard',
+    discardRecording: 'Discard recording',
+    exportFailed: message => `Export failed: ${message}`,
+    micMissing: "Your microphone could not be recorded in this browser; the recording only has the model's voice.",
+  },
+  settings: {
+    title: 'Settings',
+    close: 'Close settings',
+    language: 'Language',
+    languageHint: 'Sets the spoken language, a matching voice and the built-in instructions.',
+    apiKey: 'API Key',
+    usingOwnKey: 'Using your key for this tab',
+    forget: 'Forget',
+    apiKeyPlaceholder: 'Paste a Gemini API key',
+    use: 'Use',
+    apiKeyHint: 'Kept in session storage until the tab closes. Without a key, sessions use short-lived tokens from the token proxy.',
+    voice: 'Voice',
+    model: 'Model',
+    defaultMode: 'Default Mode',
+    modes: { mouse: 'Mouse', normal: 'Normal' },
+    microphoneInput: 'Microphone Input',
+    inputModeOptions: { 'always-on': 'Always on', vad: 'Voice activated (skip silence)', 'push-to-talk': 'Push to talk' },
+    pressKey: 'Press a key…',
+    talkKey: key => `Talk key: ${key}`,
+    shortcuts: 'Keyboard Shortcuts',
+    pressKeys: 'Press keys…',
+    shortcutUnset: 'not set',
+    shortcutButton: (action, key) => `${action}: ${key}. Press to change.`,
+    shortcutsHint: 'Shortcuts are ignored while typing in a field. Backspace clears one; Ctrl+Shift+X always stops mouse control.',
+    instructions: 'System Instructions',
+    newPreset: 'New',
+    presetToEdit: 'Preset to edit',
+    presetName: 'Preset name',
+    newPresetName: 'New preset',
+    usedForMouse: 'Used for mouse mode',
+    useForMouse: 'Use for mouse mode',
+    usedForNormal: 'Used for normal mode',
+    useForNormal: 'Use for normal mode',
+    reset: 'Reset',
+    delete: 'Delete',
+    frames: 'Camera & Screen Frames',
+    interval: 'Interval',
+    jpegQuality: 'JPEG quality',
+    resolution: 'Frame resolution',
+    policy: 'Action Policy',
+    allowedApps: 'Allowed applications (empty allows any not blocked)',
+    blockedApps: 'Blocked applications',
+    confirmBefore: 'Ask for confirmation before',
+    maxClicks: seconds => `Max clicks per ${seconds}s`,
+    defaults: 'Defaults',
+    restartNote: 'Saving restarts the session',
+    save: 'Save',
+  },
+  macros: {
+    title: 'Macros',
+    close: 'Close macros',
+    recordingHint: 'Recording… say "stop recording as" and a name to save.',
+    hint: 'In mouse mode, say "start recording", perform the steps, then "stop recording as open mail". Say "run open mail" to replay.',
+    discard: 'Discard',
+    empty: 'No macros saved yet.',
+    steps: count => `${count} steps`,
+    name: 'Macro name',
+    stepsJson: 'Macro steps as JSON',
+    nameRequired: 'Name cannot be empty',
+    save: 'Save',
+    cancel: 'Cancel',
+    stop: 'Stop',
+    run: 'Run',
+    edit: 'Edit JSON',
+    delete: 'Delete',
+  },
+  history: {
+    title: 'Session History',
+    close: 'Close history',
+    search: 'Search session history',
+    searchPlaceholder: 'Search transcripts and commands',
+    readFailed: message => `Could not read history: ${message}`,
+    exportAllMarkdown: 'Export all as Markdown',
+    exportAllJson: 'Export all as JSON',
+    empty: 'No sessions found.',
+    summary: (turns, commands) => `${turns} turns · ${commands} commands`,
+    you: 'You',
+    model: 'Model',
+    exportMarkdown: 'Export MD',
+    exportJson: 'Export JSON',
+    delete: 'Delete',
+  },
+  metrics: {
+    title: 'Session metrics',
+    close: 'Close metrics',
+    collapse: 'Collapse metrics',
+    expand: 'Expand metrics',
+    connect: 'Connect time',
+    response: 'Response latency',
+    latency: (last, p50, p95, count) => `last ${last} · p50 ${p50} · p95 ${p95} · n=${count}`,
+    media: 'Frames sent',
+    mediaSent: (frames, size) => `${frames} frames · ${size}`,
+    commands: 'Mouse commands',
+    commandCounts: (parsed, failed) => `${parsed} parsed · ${failed} failed`,
+    export: 'Export JSON',
+    localOnly: 'Kept on this device only.',
+  },
+  policy: {
+    blocked: app => `Opening "${app}" is blocked by policy`,
+    notAllowed: app => `"${app}" is not on the allowed application list`,
+    clickLimit: (max, seconds) => `Click limit reached (${max} per ${seconds}s)`,
+    confirm: action => `Say "confirm" or press Y to ${action}`,
+    mouseOff: 'Mouse control is switched off',
+    cancelled: 'Cancelled by user',
+    needsScreen: 'Aiming at a screen position needs the whole screen to be shared',
+    noExecutor: 'No executor available',
+  },
+  instructions: {
+    mouse: `You are an AI-powered Digital System Mouse Controller.
+Your role is to act like the brain of a virtual mouse that controls the OPERATING SYSTEM.
+Perform mouse actions by calling the move, left_click, right_click, double_click, mouse_down, mouse_up, scroll and open tools.
+Use type_text for dictation (e.g. "type: hello world") and key_combo for shortcuts such as ctrl+s or alt+tab. For drag-and-drop, call mouse_down on the source and mouse_up on the drop point.
+When the screen is shared, aim at what you see by passing x/y or a box in 0-1000 screen coordinates plus the element's name.
+If a tool call is rejected, read the error and call it again with corrected arguments.
+Use the macro tools when the user asks to start or stop recording, to run a saved macro, or which macros exist.`,
+    normal: `You are a helpful, friendly assistant.
+Talk naturally and help the user. Keep responses conversational and brief.`,
+    language: '',
+    presetNames: { mouse: 'Mouse Controller', normal: 'Friendly Assistant' },
+  },
+  directions: {
+    up: ['up', 'upward', 'upwards', 'above', 'top'],
+    down: ['down', 'downward', 'downwards', 'below', 'bottom'],
+    left: ['left', 'to the left'],
+    right: ['right', 'to the right'],
+  },
+  answers: {
+    yes: ['confirm', 'confirmed', 'yes', 'do it'],
+    no: ['cancel', 'no', 'stop', "don't"],
+  },
+};
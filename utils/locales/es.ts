@@ -0,0 +1,247 @@
+import type { Messages } from '../i18n';
+
+export const es: Messages = {
+  actions: {
+    'toggle-session': 'Iniciar o terminar sesión',
+    'end-session': 'Terminar sesión',
+    'toggle-mute': 'Silenciar o activar micrófono',
+    'cycle-input-mode': 'Cambiar modo de entrada del micrófono',
+    'toggle-camera': 'Encender o apagar cámara',
+    'flip-camera': 'Girar cámara',
+    'toggle-screen-share': 'Compartir pantalla',
+    'toggle-recording': 'Iniciar o detener grabación',
+    'toggle-mouse-mode': 'Activar o desactivar modo ratón',
+    'toggle-devices': 'Elegir dispositivos',
+    'toggle-transcript': 'Mostrar u ocultar transcripción',
+    'toggle-macros': 'Abrir macros',
+    'toggle-history': 'Abrir historial de sesiones',
+    'toggle-settings': 'Abrir ajustes',
+    'toggle-metrics': 'Mostrar métricas de la sesión',
+    'command-palette': 'Paleta de comandos',
+  },
+  commandActions: {
+    move: 'mover',
+    left_click: 'clic izquierdo',
+    right_click: 'clic derecho',
+    double_click: 'doble clic',
+    mouse_down: 'pulsar botón',
+    mouse_up: 'soltar botón',
+    scroll: 'desplazar',
+    type_text: 'escribir texto',
+    key_combo: 'combinación de teclas',
+    open: 'abrir',
+    none: 'ninguna',
+  },
+  hudStates: { pending: 'Ejecutando', confirm: 'Confirmar', success: 'Ejecutado', error: 'Falló', blocked: 'Bloqueado' },
+  statuses: { IDLE: 'Sin conexión', CONNECTING: 'Conectando', CONNECTED: 'Conectado', RECONNECTING: 'Reconectando', ERROR: 'Error' },
+  inputModes: { 'always-on': 'Siempre activo', vad: 'Activado por voz', 'push-to-talk': 'Pulsar para hablar' },
+  app: {
+    macroStep: (macro, index, total) => `${macro} · paso ${index} de ${total}`,
+    upNext: 'A continuación',
+    updateAvailable: 'Hay una versión nueva disponible.',
+    reload: 'Recargar',
+    later: 'Más tarde',
+    endSessionFirst: 'Termina la sesión primero',
+    micMuted: 'Micro silenciado',
+    listening: 'Escuchando',
+    holdToTalk: key => `Mantén ${key} para hablar`,
+    recordingSession: 'Grabando sesión',
+    recordingMacro: 'Grabando macro',
+    offline: 'Sin conexión',
+    offlineBadge: 'Sin conexión · las sesiones necesitan internet',
+    reconnecting: attempt => `Reconectando · intento ${attempt}`,
+    enterApiKey: 'Introducir clave de API',
+  },
+  toolbar: {
+    label: 'Controles de la sesión',
+    status: status => `Estado: ${status}`,
+    startSession: 'Iniciar sesión',
+    endSession: 'Terminar sesión',
+    mute: 'Silenciar micrófono',
+    inputMode: mode => `Entrada: ${mode}`,
+    camera: 'Cámara',
+    shareScreen: 'Compartir pantalla',
+    record: 'Grabar sesión',
+    devices: 'Dispositivos',
+    mouseMode: 'Modo ratón',
+    transcript: 'Transcripción',
+    macros: 'Macros',
+    macrosRecording: 'Macros (grabando)',
+    history: 'Historial de sesiones',
+    settings: 'Ajustes',
+  },
+  announce: {
+    connecting: 'Conectando',
+    connected: 'Conectado',
+    reconnected: 'Reconectado',
+    reconnecting: attempt => `Conexión perdida, reconectando (intento ${attempt})`,
+    error: message => `Error de sesión: ${message}`,
+    ended: 'Sesión terminada',
+    muted: 'Micrófono silenciado',
+    unmuted: 'Micrófono activado',
+    inputMode: mode => `Entrada: ${mode}`,
+  },
+  palette: {
+    title: 'Paleta de comandos',
+    search: 'Buscar acciones',
+    placeholder: 'Escribe una acción…',
+    empty: 'Ninguna acción coincide.',
+    list: 'Acciones',
+  },
+  devices: {
+    title: 'Dispositivos',
+    close: 'Cerrar dispositivos',
+    microphone: 'Micrófono',
+    speaker: 'Altavoz',
+    camera: 'Cámara',
+    systemDefault: 'Predeterminado del sistema',
+    noOutputSelection: 'Este navegador no permite elegir la salida de audio.',
+  },
+  transcript: { title: 'Transcripción', empty: 'Todavía no se ha dicho nada.' },
+  recording: {
+    title: duration => `Grabación · ${duration}`,
+    label: 'Grabación terminada',
+    video: 'Vídeo',
+    downloadVideo: 'Descargar vídeo',
+    downloadWebm: 'Descargar audio WebM',
+    downloadWav: 'Descargar audio WAV',
+    subtitles: 'Subtítulos',
+    downloadSubtitles: 'Descargar subtítulos',
+    discard: 'Descartar',
+    discardRecording: 'Descartar grabación',
+    exportFailed: message => `No se pudo exportar: ${message}`,
+    micMissing: 'Este navegador no permite grabar tu micrófono; la grabación solo tiene la voz del modelo.',
+  },
+  settings: {
+    title: 'Ajustes',
+    close: 'Cerrar ajustes',
+    language: 'Idioma',
+    languageHint: 'Define el idioma hablado, una voz adecuada y las instrucciones integradas.',
+    apiKey: 'Clave de API',
+    usingOwnKey: 'Usando tu clave en esta pestaña',
+    forget: 'Olvidar',
+    apiKeyPlaceholder: 'Pega una clave de API de Gemini',
+    use: 'Usar',
+    apiKeyHint: 'Se guarda en el almacenamiento de sesión hasta cerrar la pestaña. Sin clave, las sesiones usan tokens temporales del proxy.',
+    voice: 'Voz',
+    model: 'Modelo',
+    defaultMode: 'Modo predeterminado',
+    modes: { mouse: 'Ratón', normal: 'Normal' },
+    microphoneInput: 'Entrada del micrófono',
+    inputModeOptions: { 'always-on': 'Siempre activo', vad: 'Activado por voz (omite silencios)', 'push-to-talk': 'Pulsar para hablar' },
+    pressKey: 'Pulsa una tecla…',
+    talkKey: key => `Tecla para hablar: ${key}`,
+    shortcuts: 'Atajos de teclado',
+    pressKeys: 'Pulsa las teclas…',
+    shortcutUnset: 'sin asignar',
+    shortcutButton: (action, key) => `${action}: ${key}. Pulsa para cambiarlo.`,
+    shortcutsHint: 'Los atajos no funcionan mientras escribes en un campo. Retroceso borra uno; Ctrl+Shift+X siempre detiene el control del ratón.',
+    instructions: 'Instrucciones del sistema',
+    newPreset: 'Nueva',
+    presetToEdit: 'Instrucción a editar',
+    presetName: 'Nombre',
+    newPresetName: 'Nueva instrucción',
+    usedForMouse: 'Usada en modo ratón',
+    useForMouse: 'Usar en modo ratón',
+    usedForNormal: 'Usada en modo normal',
+    useForNormal: 'Usar en modo normal',
+    reset: 'Restablecer',
+    delete: 'Eliminar',
+    frames: 'Imágenes de cámara y pantalla',
+    interval: 'Intervalo',
+    jpegQuality: 'Calidad JPEG',
+    resolution: 'Resolución',
+    policy: 'Política de acciones',
+    allowedApps: 'Aplicaciones permitidas (vacío permite cualquiera no bloqueada)',
+    blockedApps: 'Aplicaciones bloqueadas',
+    confirmBefore: 'Pedir confirmación antes de',
+    maxClicks: seconds => `Máx. clics cada ${seconds} s`,
+    defaults: 'Predeterminados',
+    restartNote: 'Guardar reinicia la sesión',
+    save: 'Guardar',
+  },
+  macros: {
+    title: 'Macros',
+    close: 'Cerrar macros',
+    recordingHint: 'Grabando… di "detén la grabación como" y un nombre para guardarla.',
+    hint: 'En modo ratón, di "empieza a grabar", haz los pasos y luego "detén la grabación como abrir correo". Di "ejecuta abrir correo" para repetirla.',
+    discard: 'Descartar',
+    empty: 'Todavía no hay macros guardadas.',
+    steps: count => `${count} pasos`,
+    name: 'Nombre de la macro',
+    stepsJson: 'Pasos de la macro en JSON',
+    nameRequired: 'El nombre no puede estar vacío',
+    save: 'Guardar',
+    cancel: 'Cancelar',
+    stop: 'Detener',
+    run: 'Ejecutar',
+    edit: 'Editar JSON',
+    delete: 'Eliminar',
+  },
+  history: {
+    title: 'Historial de sesiones',
+    close: 'Cerrar historial',
+    search: 'Buscar en el historial',
+    searchPlaceholder: 'Buscar en transcripciones y comandos',
+    readFailed: message => `No se pudo leer el historial: ${message}`,
+    exportAllMarkdown: 'Exportar todo como Markdown',
+    exportAllJson: 'Exportar todo como JSON',
+    empty: 'No se encontraron sesiones.',
+    summary: (turns, commands) => `${turns} turnos · ${commands} comandos`,
+    you: 'Tú',
+    model: 'Modelo',
+    exportMarkdown: 'Exportar MD',
+    exportJson: 'Exportar JSON',
+    delete: 'Eliminar',
+  },
+  metrics: {
+    title: 'Métricas de la sesión',
+    close: 'Cerrar métricas',
+    collapse: 'Contraer métricas',
+    expand: 'Expandir métricas',
+    connect: 'Tiempo de conexión',
+    response: 'Latencia de respuesta',
+    latency: (last, p50, p95, count) => `última ${last} · p50 ${p50} · p95 ${p95} · n=${count}`,
+    media: 'Imágenes enviadas',
+    mediaSent: (frames, size) => `${frames} imágenes · ${size}`,
+    commands: 'Comandos de ratón',
+    commandCounts: (parsed, failed) => `${parsed} válidos · ${failed} fallidos`,
+    export: 'Exportar JSON',
+    localOnly: 'Solo se guardan en este dispositivo.',
+  },
+  policy: {
+    blocked: app => `La política bloquea abrir "${app}"`,
+    notAllowed: app => `"${app}" no está en la lista de aplicaciones permitidas`,
+    clickLimit: (max, seconds) => `Límite de clics alcanzado (${max} cada ${seconds} s)`,
+    confirm: action => `Di "confirmo" o pulsa Y para: ${action}`,
+    mouseOff: 'El control del ratón está desactivado',
+    cancelled: 'Cancelado por el usuario',
+    needsScreen: 'Para apuntar a una posición hay que compartir la pantalla completa',
+    noExecutor: 'No hay ningún ejecutor disponible',
+  },
+  instructions: {
+    mouse: `Eres un controlador de ratón digital del sistema impulsado por IA.
+Actúas como el cerebro de un ratón virtual que controla el SISTEMA OPERATIVO.
+Realiza las acciones llamando a las herramientas move, left_click, right_click, double_click, mouse_down, mouse_up, scroll y open.
+Usa type_text para dictar (p. ej. "escribe: hola mundo") y key_combo para atajos como ctrl+s o alt+tab. Para arrastrar y soltar, llama a mouse_down en el origen y a mouse_up en el destino.
+Cuando se comparta la pantalla, apunta a lo que ves pasando x/y o un recuadro en coordenadas 0-1000 junto con el nombre del elemento.
+El usuario da las órdenes en español: "arriba", "abajo", "izquierda" y "derecha" corresponden a las direcciones up, down, left y right. Los argumentos de las herramientas van siempre en inglés.
+Si se rechaza una llamada, lee el error y vuelve a llamar con argumentos corregidos.
+Usa las herramientas de macros cuando el usuario pida empezar o detener una grabación, ejecutar una macro guardada o saber qué macros existen.
+Responde siempre en español.`,
+    normal: `Eres un asistente útil y amable.
+Habla con naturalidad y ayuda al usuario. Mantén las respuestas conversacionales y breves. Responde siempre en español.`,
+    language: 'Responde siempre en español.',
+    presetNames: { mouse: 'Controlador de ratón', normal: 'Asistente amable' },
+  },
+  directions: {
+    up: ['arriba', 'hacia arriba', 'para arriba', 'sube', 'subir'],
+    down: ['abajo', 'hacia abajo', 'para abajo', 'baja', 'bajar'],
+    left: ['izquierda', 'a la izquierda', 'hacia la izquierda'],
+    right: ['derecha', 'a la derecha', 'hacia la derecha'],
+  },
+  answers: {
+    yes: ['sí', 'confirmo', 'confirmar', 'hazlo', 'adelante'],
+    no: ['no', 'cancela', 'cancelar', 'detente'],
+  },
+};
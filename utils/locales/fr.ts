@@ -0,0 +1,247 @@
+import type { Messages } from '../i18n';
+
+export const fr: Messages = {
+  actions: {
+    'toggle-session': 'Démarrer ou terminer la session',
+    'end-session': 'Terminer la session',
+    'toggle-mute': 'Couper ou rétablir le micro',
+    'cycle-input-mode': "Changer le mode d'entrée du micro",
+    'toggle-camera': 'Allumer ou éteindre la caméra',
+    'flip-camera': 'Retourner la caméra',
+    'toggle-screen-share': "Partager l'écran",
+    'toggle-recording': "Démarrer ou arrêter l'enregistrement",
+    'toggle-mouse-mode': 'Activer ou désactiver le mode souris',
+    'toggle-devices': 'Choisir les appareils',
+    'toggle-transcript': 'Afficher ou masquer la transcription',
+    'toggle-macros': 'Ouvrir les macros',
+    'toggle-history': "Ouvrir l'historique des sessions",
+    'toggle-settings': 'Ouvrir les réglages',
+    'toggle-metrics': 'Afficher les métriques de session',
+    'command-palette': 'Palette de commandes',
+  },
+  commandActions: {
+    move: 'déplacer',
+    left_click: 'clic gauche',
+    right_click: 'clic droit',
+    double_click: 'double-clic',
+    mouse_down: 'appuyer',
+    mouse_up: 'relâcher',
+    scroll: 'défiler',
+    type_text: 'saisir du texte',
+    key_combo: 'raccourci clavier',
+    open: 'ouvrir',
+    none: 'aucune',
+  },
+  hudStates: { pending: 'Exécution', confirm: 'Confirmer', success: 'Exécuté', error: 'Échec', blocked: 'Bloqué' },
+  statuses: { IDLE: 'Non connecté', CONNECTING: 'Connexion', CONNECTED: 'Connecté', RECONNECTING: 'Reconnexion', ERROR: 'Erreur' },
+  inputModes: { 'always-on': 'Toujours actif', vad: 'Activé par la voix', 'push-to-talk': 'Appuyer pour parler' },
+  app: {
+    macroStep: (macro, index, total) => `${macro} · étape ${index} sur ${total}`,
+    upNext: 'Ensuite',
+    updateAvailable: 'Une nouvelle version est disponible.',
+    reload: 'Recharger',
+    later: 'Plus tard',
+    endSessionFirst: "Terminez d'abord la session",
+    micMuted: 'Micro coupé',
+    listening: 'Écoute',
+    holdToTalk: key => `Maintenez ${key} pour parler`,
+    recordingSession: 'Enregistrement de la session',
+    recordingMacro: 'Enregistrement de la macro',
+    offline: 'Hors ligne',
+    offlineBadge: 'Hors ligne · les sessions ont besoin de connexion',
+    reconnecting: attempt => `Reconnexion · tentative ${attempt}`,
+    enterApiKey: "Saisir une clé d'API",
+  },
+  toolbar: {
+    label: 'Commandes de la session',
+    status: status => `État : ${status}`,
+    startSession: 'Démarrer la session',
+    endSession: 'Terminer la session',
+    mute: 'Couper le micro',
+    inputMode: mode => `Entrée : ${mode}`,
+    camera: 'Caméra',
+    shareScreen: "Partager l'écran",
+    record: 'Enregistrer la session',
+    devices: 'Appareils',
+    mouseMode: 'Mode souris',
+    transcript: 'Transcription',
+    macros: 'Macros',
+    macrosRecording: 'Macros (enregistrement)',
+    history: 'Historique des sessions',
+    settings: 'Réglages',
+  },
+  announce: {
+    connecting: 'Connexion',
+    connected: 'Connecté',
+    reconnected: 'Reconnecté',
+    reconnecting: attempt => `Connexion perdue, reconnexion (tentative ${attempt})`,
+    error: message => `Erreur de session : ${message}`,
+    ended: 'Session terminée',
+    muted: 'Micro coupé',
+    unmuted: 'Micro activé',
+    inputMode: mode => `Entrée : ${mode}`,
+  },
+  palette: {
+    title: 'Palette de commandes',
+    search: 'Rechercher une action',
+    placeholder: 'Tapez une action…',
+    empty: 'Aucune action correspondante.',
+    list: 'Actions',
+  },
+  devices: {
+    title: 'Appareils',
+    close: 'Fermer les appareils',
+    microphone: 'Micro',
+    speaker: 'Haut-parleur',
+    camera: 'Caméra',
+    systemDefault: 'Par défaut du système',
+    noOutputSelection: 'Ce navigateur ne permet pas de choisir la sortie audio.',
+  },
+  transcript: { title: 'Transcription', empty: "Rien n'a encore été dit." },
+  recording: {
+    title: duration => `Enregistrement · ${duration}`,
+    label: 'Enregistrement terminé',
+    video: 'Vidéo',
+    downloadVideo: 'Télécharger la vidéo',
+    downloadWebm: "Télécharger l'audio WebM",
+    downloadWav: "Télécharger l'audio WAV",
+    subtitles: 'Sous-titres',
+    downloadSubtitles: 'Télécharger les sous-titres',
+    discard: 'Supprimer',
+    discardRecording: "Supprimer l'enregistrement",
+    exportFailed: message => `Échec de l'export : ${message}`,
+    micMissing: "Votre micro n'a pas pu être enregistré dans ce navigateur ; l'enregistrement ne contient que la voix du modèle.",
+  },
+  settings: {
+    title: 'Réglages',
+    close: 'Fermer les réglages',
+    language: 'Langue',
+    languageHint: 'Définit la langue parlée, une voix adaptée et les instructions intégrées.',
+    apiKey: "Clé d'API",
+    usingOwnKey: 'Votre clé est utilisée dans cet onglet',
+    forget: 'Oublier',
+    apiKeyPlaceholder: "Collez une clé d'API Gemini",
+    use: 'Utiliser',
+    apiKeyHint: "Conservée dans le stockage de session jusqu'à la fermeture de l'onglet. Sans clé, les sessions utilisent des jetons temporaires du proxy.",
+    voice: 'Voix',
+    model: 'Modèle',
+    defaultMode: 'Mode par défaut',
+    modes: { mouse: 'Souris', normal: 'Normal' },
+    microphoneInput: 'Entrée du micro',
+    inputModeOptions: { 'always-on': 'Toujours actif', vad: 'Activé par la voix (ignore les silences)', 'push-to-talk': 'Appuyer pour parler' },
+    pressKey: 'Appuyez sur une touche…',
+    talkKey: key => `Touche pour parler : ${key}`,
+    shortcuts: 'Raccourcis clavier',
+    pressKeys: 'Appuyez sur les touches…',
+    shortcutUnset: 'non défini',
+    shortcutButton: (action, key) => `${action} : ${key}. Appuyez pour modifier.`,
+    shortcutsHint: 'Les raccourcis sont ignorés pendant la saisie dans un champ. Retour arrière en efface un ; Ctrl+Maj+X arrête toujours le contrôle de la souris.',
+    instructions: 'Instructions système',
+    newPreset: 'Nouvelle',
+    presetToEdit: 'Instruction à modifier',
+    presetName: 'Nom',
+    newPresetName: 'Nouvelle instruction',
+    usedForMouse: 'Utilisée en mode souris',
+    useForMouse: 'Utiliser en mode souris',
+    usedForNormal: 'Utilisée en mode normal',
+    useForNormal: 'Utiliser en mode normal',
+    reset: 'Réinitialiser',
+    delete: 'Supprimer',
+    frames: 'Images de caméra et d’écran',
+    interval: 'Intervalle',
+    jpegQuality: 'Qualité JPEG',
+    resolution: 'Résolution',
+    policy: 'Politique des actions',
+    allowedApps: 'Applications autorisées (vide autorise toutes celles non bloquées)',
+    blockedApps: 'Applications bloquées',
+    confirmBefore: 'Demander une confirmation avant',
+    maxClicks: seconds => `Clics max. par ${seconds} s`,
+    defaults: 'Par défaut',
+    restartNote: "L'enregistrement redémarre la session",
+    save: 'Enregistrer',
+  },
+  macros: {
+    title: 'Macros',
+    close: 'Fermer les macros',
+    recordingHint: 'Enregistrement… dites « arrête l’enregistrement sous » et un nom pour la sauvegarder.',
+    hint: 'En mode souris, dites « commence l’enregistrement », effectuez les étapes, puis « arrête l’enregistrement sous ouvrir mail ». Dites « lance ouvrir mail » pour la rejouer.',
+    discard: 'Supprimer',
+    empty: 'Aucune macro enregistrée.',
+    steps: count => `${count} étapes`,
+    name: 'Nom de la macro',
+    stepsJson: 'Étapes de la macro en JSON',
+    nameRequired: 'Le nom ne peut pas être vide',
+    save: 'Enregistrer',
+    cancel: 'Annuler',
+    stop: 'Arrêter',
+    run: 'Lancer',
+    edit: 'Modifier le JSON',
+    delete: 'Supprimer',
+  },
+  history: {
+    title: 'Historique des sessions',
+    close: "Fermer l'historique",
+    search: "Rechercher dans l'historique",
+    searchPlaceholder: 'Rechercher dans les transcriptions et commandes',
+    readFailed: message => `Impossible de lire l'historique : ${message}`,
+    exportAllMarkdown: 'Tout exporter en Markdown',
+    exportAllJson: 'Tout exporter en JSON',
+    empty: 'Aucune session trouvée.',
+    summary: (turns, commands) => `${turns} tours · ${commands} commandes`,
+    you: 'Vous',
+    model: 'Modèle',
+    exportMarkdown: 'Exporter MD',
+    exportJson: 'Exporter JSON',
+    delete: 'Supprimer',
+  },
+  metrics: {
+    title: 'Métriques de session',
+    close: 'Fermer les métriques',
+    collapse: 'Réduire les métriques',
+    expand: 'Développer les métriques',
+    connect: 'Temps de connexion',
+    response: 'Latence de réponse',
+    latency: (last, p50, p95, count) => `dernière ${last} · p50 ${p50} · p95 ${p95} · n=${count}`,
+    media: 'Images envoyées',
+    mediaSent: (frames, size) => `${frames} images · ${size}`,
+    commands: 'Commandes souris',
+    commandCounts: (parsed, failed) => `${parsed} valides · ${failed} en échec`,
+    export: 'Exporter JSON',
+    localOnly: 'Conservées uniquement sur cet appareil.',
+  },
+  policy: {
+    blocked: app => `L'ouverture de « ${app} » est bloquée par la politique`,
+    notAllowed: app => `« ${app} » n'est pas dans la liste des applications autorisées`,
+    clickLimit: (max, seconds) => `Limite de clics atteinte (${max} par ${seconds} s)`,
+    confirm: action => `Dites « confirme » ou appuyez sur Y pour : ${action}`,
+    mouseOff: 'Le contrôle de la souris est désactivé',
+    cancelled: "Annulé par l'utilisateur",
+    needsScreen: "Viser une position nécessite de partager l'écran entier",
+    noExecutor: 'Aucun exécuteur disponible',
+  },
+  instructions: {
+    mouse: `Tu es un contrôleur de souris numérique du système, piloté par l'IA.
+Tu joues le rôle du cerveau d'une souris virtuelle qui contrôle le SYSTÈME D'EXPLOITATION.
+Effectue les actions en appelant les outils move, left_click, right_click, double_click, mouse_down, mouse_up, scroll et open.
+Utilise type_text pour la dictée (par ex. « tape : bonjour le monde ») et key_combo pour les raccourcis comme ctrl+s ou alt+tab. Pour un glisser-déposer, appelle mouse_down sur la source puis mouse_up sur la cible.
+Quand l'écran est partagé, vise ce que tu vois en passant x/y ou un cadre en coordonnées 0-1000 avec le nom de l'élément.
+L'utilisateur parle français : « haut », « bas », « gauche » et « droite » correspondent aux directions up, down, left et right. Les arguments des outils restent toujours en anglais.
+Si un appel d'outil est refusé, lis l'erreur et rappelle-le avec des arguments corrigés.
+Utilise les outils de macros quand l'utilisateur veut démarrer ou arrêter un enregistrement, lancer une macro enregistrée ou connaître les macros existantes.
+Réponds toujours en français.`,
+    normal: `Tu es un assistant serviable et sympathique.
+Parle naturellement et aide l'utilisateur. Garde des réponses brèves et conversationnelles. Réponds toujours en français.`,
+    language: 'Réponds toujours en français.',
+    presetNames: { mouse: 'Contrôleur de souris', normal: 'Assistant sympathique' },
+  },
+  directions: {
+    up: ['haut', 'en haut', 'vers le haut', 'monte', 'monter'],
+    down: ['bas', 'en bas', 'vers le bas', 'descends', 'descendre'],
+    left: ['gauche', 'à gauche', 'vers la gauche'],
+    right: ['droite', 'à droite', 'vers la droite'],
+  },
+  answers: {
+    yes: ['oui', 'confirme', 'confirmer', 'vas y', 'fais le'],
+    no: ['non', 'annule', 'annuler', 'arrête'],
+  },
+};
@@ -0,0 +1,136 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { Macro, MacroStep, MouseCommand } from '../types';
+import { validateMouseCommand } from './mouse-commands';
+
+const STORAGE_KEY = 'gemini-live-macros';
+
+// Long pauses while recording are mostly the user talking; replay doesn't need to wait that long.
+export const MAX_STEP_DELAY_MS = 5000;
+
+export const MACRO_TOOLS: FunctionDeclaration[] = [
+  {
+    name: 'start_macro_recording',
+    description: 'Start recording the following mouse commands as a macro, e.g. when the user says "start recording".',
+  },
+  {
+    name: 'stop_macro_recording',
+    description: 'Stop recording and save the recorded commands under a name, e.g. "stop recording as open mail".',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { name: { type: Type.STRING, description: 'Name to save the macro under.' } },
+      required: ['name'],
+    },
+  },
+  {
+    name: 'run_macro',
+    description: 'Replay a saved macro by name, e.g. "run open mail".',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { name: { type: Type.STRING, description: 'Name of the saved macro.' } },
+      required: ['name'],
+    },
+  },
+  {
+    name: 'list_macros',
+    description: 'List the names of the saved macros.',
+  },
+];
+
+export function loadMacros(): Macro[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter(m => m && typeof m.name === 'string' && Array.isArray(m.steps)) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveMacros(macros: Macro[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(macros));
+  } catch (err) {
+    console.warn('Could not save macros', err);
+  }
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/^['"]|['"]$/g, '');
+
+// Exact (case-insensitive) name first, then a partial match so "run mail" still finds "open mail".
+export function findMacro(macros: Macro[], name: string): Macro | undefined {
+  const wanted = normalizeName(name);
+  if (!wanted) return undefined;
+  return macros.find(m => normalizeName(m.name) === wanted) ?? macros.find(m => normalizeName(m.name).includes(wanted));
+}
+
+// Saving under an existing name replaces that macro.
+export function upsertMacro(macros: Macro[], macro: Macro): Macro[] {
+  const existing = findMacro(macros, macro.name);
+  return existing && normalizeName(existing.name) === normalizeName(macro.name)
+    ? macros.map(m => (m.id === existing.id ? { ...macro, id: existing.id } : m))
+    : [...macros, macro];
+}
+
+// Validates steps edited as JSON in the UI with the same rules as model output.
+export function parseMacroSteps(json: string): { steps?: MacroStep[]; error?: string } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (err) {
+    return { error: `Invalid JSON: ${(err as Error).message}` };
+  }
+  if (!Array.isArray(raw)) return { error: 'Steps must be a JSON array' };
+
+  const steps: MacroStep[] = [];
+  for (const [i, entry] of raw.entries()) {
+    const result = validateMouseCommand(entry?.command);
+    if (!result.ok) return { error: `Step ${i + 1}: ${result.error}` };
+    const delay = entry.delayMs ?? 0;
+    if (typeof delay !== 'number' || !Number.isFinite(delay) || delay < 0) {
+      return { error: `Step ${i + 1}: delayMs must be a non-negative number` };
+    }
+    steps.push({ command: result.command, delayMs: Math.min(MAX_STEP_DELAY_MS, Math.round(delay)) });
+  }
+  return { steps };
+}
+
+export class MacroRecorder {
+  private steps: MacroStep[] = [];
+  private lastAt = 0;
+  private active = false;
+
+  constructor(private now: () => number = Date.now) {}
+
+  get isRecording() {
+    return this.active;
+  }
+
+  start() {
+    this.steps = [];
+    this.lastAt = this.now();
+    this.active = true;
+  }
+
+  // Screen points are derived from the target again on replay, so they aren't stored.
+  record(command: MouseCommand) {
+    if (!this.active) return;
+    const at = this.now();
+    const { screenPoint, ...rest } = command;
+    this.steps.push({ command: rest, delayMs: Math.min(MAX_STEP_DELAY_MS, at - this.lastAt) });
+    this.lastAt = at;
+  }
+
+  cancel() {
+    this.active = false;
+    this.steps = [];
+  }
+
+  // Returns null when nothing was recorded.
+  stop(name: string): Macro | null {
+    this.active = false;
+    const steps = this.steps;
+    this.steps = [];
+    if (!steps.length) return null;
+    return { id: crypto.randomUUID(), name: name.trim(), steps: [{ ...steps[0], delayMs: 0 }, ...steps.slice(1)], createdAt: this.now() };
+  }
+}
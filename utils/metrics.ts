@@ -0,0 +1,112 @@
+import { LatencyStats, SessionMetricsSummary } from '../types';
+import { downloadFile } from './session-history';
+
+// Oldest samples are dropped past this, so a long session can't grow without bound.
+const MAX_SAMPLES = 500;
+
+export function latencyStats(samples: number[]): LatencyStats {
+  if (!samples.length) return { count: 0, last: null, avg: null, p50: null, p95: null, max: null };
+  const sorted = [...samples].sort((a, b) => a - b);
+  const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+  return {
+    count: samples.length,
+    last: samples[samples.length - 1],
+    avg: Math.round(samples.reduce((sum, s) => sum + s, 0) / samples.length),
+    p50: percentile(0.5),
+    p95: percentile(0.95),
+    max: sorted[sorted.length - 1],
+  };
+}
+
+// Size of the data a base64 string encodes, without decoding it.
+export const base64Bytes = (data: string) => Math.floor((data.length * 3) / 4) - (data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0);
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Per-session counters and timings, fed by the session controller and the command parsers. Kept in memory
+// and in the local session record only.
+export class SessionMetrics {
+  private sessionId: string | null = null;
+  private startedAt: number | null = null;
+  private endedAt: number | null = null;
+  private connectTimes: number[] = [];
+  private responseTimes: number[] = [];
+  private frames = 0;
+  private bytes = 0;
+  private parsed = 0;
+  private failed = 0;
+  private speechEndedAt: number | null = null;
+
+  constructor(private now: () => number = Date.now) {}
+
+  begin(sessionId: string) {
+    this.sessionId = sessionId;
+    this.startedAt = this.now();
+    this.endedAt = null;
+    this.connectTimes = [];
+    this.responseTimes = [];
+    this.frames = 0;
+    this.bytes = 0;
+    this.parsed = 0;
+    this.failed = 0;
+    this.speechEndedAt = null;
+  }
+
+  // The summary keeps the last session's numbers until the next one begins.
+  end() {
+    if (this.sessionId && this.endedAt === null) this.endedAt = this.now();
+    this.speechEndedAt = null;
+  }
+
+  recordConnect(durationMs: number) {
+    push(this.connectTimes, durationMs);
+  }
+
+  // Speech ending starts the response clock; speaking again restarts it on the next pause.
+  recordSpeech(speaking: boolean) {
+    this.speechEndedAt = speaking ? null : this.now();
+  }
+
+  // Only the first audio after the user stopped speaking counts.
+  recordModelAudio() {
+    if (this.speechEndedAt === null) return;
+    push(this.responseTimes, this.now() - this.speechEndedAt);
+    this.speechEndedAt = null;
+  }
+
+  recordFrame(data: string) {
+    this.frames++;
+    this.bytes += base64Bytes(data);
+  }
+
+  recordCommands(parsed: number, failed: number) {
+    this.parsed += parsed;
+    this.failed += failed;
+  }
+
+  summary(): SessionMetricsSummary {
+    return {
+      sessionId: this.sessionId,
+      startedAt: this.startedAt,
+      endedAt: this.endedAt,
+      connect: latencyStats(this.connectTimes),
+      response: latencyStats(this.responseTimes),
+      media: { frames: this.frames, bytes: this.bytes },
+      commands: { parsed: this.parsed, failed: this.failed },
+    };
+  }
+}
+
+function push(samples: number[], value: number) {
+  samples.push(Math.round(value));
+  if (samples.length > MAX_SAMPLES) samples.shift();
+}
+
+export function exportMetrics(summary: SessionMetricsSummary) {
+  const stamp = new Date(summary.startedAt ?? Date.now()).toISOString().replace(/[:.]/g, '-');
+  downloadFile(`metrics-${stamp}.json`, JSON.stringify(summary, null, 2), 'application/json');
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { findJsonObjects, parseMouseCommands, validateMouseCommand } from './mouse-commands';
+
+describe('findJsonObjects', () => {
+  it('returns every top-level object in surrounding prose', () => {
+    expect(findJsonObjects('Sure! {"action":"left_click"} and then {"action":"none"}.')).toEqual([
+      '{"action":"left_click"}',
+      '{"action":"none"}',
+    ]);
+  });
+
+  it('keeps nested objects inside their parent', () => {
+    expect(findJsonObjects('{"action":"move","target":{"x":1,"y":2}}')).toEqual(['{"action":"move","target":{"x":1,"y":2}}']);
+  });
+
+  it('ignores braces and escaped quotes inside strings', () => {
+    const text = '{"action":"type_text","text":"a } b { \\" c"} {"action":"none"}';
+    expect(findJsonObjects(text)).toEqual(['{"action":"type_text","text":"a } b { \\" c"}', '{"action":"none"}']);
+  });
+
+  it('returns a trailing unterminated object as-is', () => {
+    expect(findJsonObjects('{"action":"none"} {"action":"scroll","dir')).toEqual(['{"action":"none"}', '{"action":"scroll","dir']);
+  });
+
+  it('finds nothing in plain text or stray closing braces', () => {
+    expect(findJsonObjects('no json here } at all')).toEqual([]);
+  });
+});
+
+describe('parseMouseCommands', () => {
+  it('parses several commands from one reply', () => {
+    const { commands, errors } = parseMouseCommands(
+      '{"action":"move","direction":"up","value":100}\n{"action":"left_click"}',
+    );
+    expect(errors).toEqual([]);
+    expect(commands.map(c => c.action)).toEqual(['move', 'left_click']);
+    expect(commands[0]).toMatchObject({ direction: 'up', value: 100 });
+  });
+
+  it('reports malformed JSON without dropping the valid commands', () => {
+    const { commands, errors } = parseMouseCommands("{action: 'move'} {\"action\":\"double_click\"}");
+    expect(commands.map(c => c.action)).toEqual(['double_click']);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^Malformed JSON/);
+  });
+
+  it('reports partial output as malformed', () => {
+    const { commands, errors } = parseMouseCommands('{"action":"scroll","direction":"down","val');
+    expect(commands).toEqual([]);
+    expect(errors[0]).toMatch(/^Malformed JSON/);
+  });
+
+  it('reports objects that fail validation', () => {
+    const { commands, errors } = parseMouseCommands('{"action":"fly"}');
+    expect(commands).toEqual([]);
+    expect(errors[0]).toMatch(/Unknown action "fly"/);
+  });
+
+  it('returns nothing for text without JSON', () => {
+    expect(parseMouseCommands('Moving the pointer up now.')).toEqual({ commands: [], errors: [] });
+  });
+});
+
+describe('validateMouseCommand', () => {
+  it('rejects non-objects and unknown actions', () => {
+    expect(validateMouseCommand(null).ok).toBe(false);
+    expect(validateMouseCommand([{ action: 'move' }]).ok).toBe(false);
+    expect(validateMouseCommand({ action: 'jump' }).error).toMatch(/Unknown action/);
+  });
+
+  it('clamps values to the range of each action', () => {
+    expect(validateMouseCommand({ action: 'move', direction: 'left', value: 99999 }).command.value).toBe(2000);
+    expect(validateMouseCommand({ action: 'move', direction: 'left', value: -5 }).command.value).toBe(1);
+    expect(validateMouseCommand({ action: 'scroll', direction: 'down', value: 80 }).command.value).toBe(50);
+    expect(validateMouseCommand({ action: 'scroll', direction: 'down', value: 80, unit: 'pixels' }).command.value).toBe(80);
+    expect(validateMouseCommand({ action: 'key_combo', keys: 'tab', value: 100 }).command.value).toBe(20);
+  });
+
+  it('accepts numeric strings and rounds them', () => {
+    expect(validateMouseCommand({ action: 'move', direction: 'up', value: '12.6' }).command.value).toBe(13);
+  });
+
+  it('rejects missing or unknown directions', () => {
+    expect(validateMouseCommand({ action: 'move', value: 10 }).ok).toBe(false);
+    expect(validateMouseCommand({ action: 'scroll', direction: 'sideways', value: 1 }).error).toMatch(/needs a direction/);
+  });
+
+  it('maps spoken direction words from the supported languages', () => {
+    expect(validateMouseCommand({ action: 'move', direction: 'arriba', value: 10 }).command.direction).toBe('up');
+    expect(validateMouseCommand({ action: 'scroll', direction: 'nach links', value: 1 }).command.direction).toBe('left');
+  });
+
+  it('rejects non-numeric values', () => {
+    expect(validateMouseCommand({ action: 'move', direction: 'up', value: 'far' }).error).toMatch(/numeric value/);
+  });
+
+  it('does not need a direction for an absolute move', () => {
+    const result = validateMouseCommand({ action: 'move', x: 500, y: 250 });
+    expect(result.ok).toBe(true);
+    expect(result.command.target).toMatchObject({ x: 500, y: 250 });
+  });
+
+  it('rejects targets outside the 0-1000 frame and on actions that take none', () => {
+    expect(validateMouseCommand({ action: 'left_click', x: 1200, y: 10 }).ok).toBe(false);
+    expect(validateMouseCommand({ action: 'scroll', direction: 'up', value: 1, x: 10, y: 10 }).ok).toBe(false);
+  });
+
+  it('requires an application name without shell metacharacters for open', () => {
+    expect(validateMouseCommand({ action: 'open', application: '  ' }).ok).toBe(false);
+    expect(validateMouseCommand({ action: 'open', application: ' notepad ' }).command.application).toBe('notepad');
+    for (const application of ['calc & whoami', 'a | b', 'a > b', 'a < b', 'a ^ b', 'a "b"', '%PATH%', 'calc\nwhoami']) {
+      expect(validateMouseCommand({ action: 'open', application }).ok).toBe(false);
+    }
+  });
+
+  it('strips control characters from typed text but keeps line breaks', () => {
+    expect(validateMouseCommand({ action: 'type_text', text: 'a\u0007b\nc' }).command.text).toBe('ab\nc');
+    expect(validateMouseCommand({ action: 'type_text', text: 'x'.repeat(1001) }).ok).toBe(false);
+  });
+
+  it('normalizes key combos', () => {
+    expect(validateMouseCommand({ action: 'key_combo', keys: 'Shift + cmd + T' }).command.keys).toEqual(['shift', 'meta', 't']);
+    expect(validateMouseCommand({ action: 'key_combo', keys: 'ctrl+a+b' }).ok).toBe(false);
+  });
+});
@@ -0,0 +1,367 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { MouseCommand, FrameTarget } from '../types';
+import { directionFromWord } from './i18n';
+
+type Action = MouseCommand['action'];
+type Direction = MouseCommand['direction'];
+
+export interface ValidationResult {
+  ok: boolean;
+  command?: MouseCommand;
+  error?: string;
+}
+
+const ACTIONS: Action[] = [
+  'move', 'left_click', 'right_click', 'double_click', 'mouse_down', 'mouse_up', 'scroll', 'type_text', 'key_combo', 'open', 'none',
+];
+const DIRECTIONS: Direction[] = ['up', 'down', 'left', 'right'];
+
+// Allowed `value` range per action for direction-based actions; see validateMouseCommand for key_combo.
+const VALUE_RANGES: Partial<Record<Action, [number, number]>> = {
+  move: [1, 2000],
+  scroll: [1, 50],
+};
+const PIXEL_SCROLL_RANGE: [number, number] = [1, 5000];
+const KEY_REPEAT_RANGE: [number, number] = [1, 20];
+const MAX_TEXT_LENGTH = 1000;
+// Shell metacharacters and line breaks have no place in an application name.
+const UNSAFE_APPLICATION_CHARS = /[&|<>^"%\r\n]/;
+
+// Actions that may aim at an absolute point on the shared screen instead of the current pointer position.
+const TARGETABLE: Action[] = ['move', 'left_click', 'right_click', 'double_click', 'mouse_down', 'mouse_up'];
+
+export const MODIFIER_KEYS = ['ctrl', 'alt', 'shift', 'meta'];
+export const NAMED_KEYS = [
+  'enter', 'tab', 'escape', 'space', 'backspace', 'delete', 'insert',
+  'up', 'down', 'left', 'right', 'home', 'end', 'pageup', 'pagedown',
+  ...Array.from({ length: 12 }, (_, i) => `f${i + 1}`),
+];
+
+const KEY_ALIASES: Record<string, string> = {
+  control: 'ctrl', ctl: 'ctrl', option: 'alt', opt: 'alt',
+  cmd: 'meta', command: 'meta', win: 'meta', windows: 'meta', super: 'meta',
+  return: 'enter', esc: 'escape', del: 'delete', spacebar: 'space',
+  pgup: 'pageup', pgdn: 'pagedown', 'page up': 'pageup', 'page down': 'pagedown',
+  arrowup: 'up', arrowdown: 'down', arrowleft: 'left', arrowright: 'right',
+};
+
+const KEY_LABELS: Record<string, string> = { ctrl: 'Ctrl', alt: 'Alt', shift: 'Shift', meta: 'Meta', pageup: 'PageUp', pagedown: 'PageDown' };
+
+// Accepts "Ctrl+S", "cmd + shift + t" or ['alt', 'tab']. Exactly one non-modifier key is required.
+export function parseKeyCombo(input: unknown): { keys?: string[]; error?: string } {
+  const parts = Array.isArray(input) ? input : typeof input === 'string' ? input.split('+') : null;
+  if (!parts || parts.some(p => typeof p !== 'string')) return { error: 'keys must be a combo like "ctrl+s"' };
+
+  const modifiers: string[] = [];
+  let key: string | undefined;
+  for (const part of parts as string[]) {
+    const raw = part.trim().toLowerCase();
+    const name = KEY_ALIASES[raw] ?? raw;
+    if (MODIFIER_KEYS.includes(name)) {
+      if (!modifiers.includes(name)) modifiers.push(name);
+    } else if (NAMED_KEYS.includes(name) || /^[a-z0-9]$/.test(name)) {
+      if (key) return { error: `Only one non-modifier key per combo ("${key}" and "${name}")` };
+      key = name;
+    } else {
+      return { error: `Unknown key "${part.trim()}"` };
+    }
+  }
+  if (!key) return { error: 'A key combo needs a key besides the modifiers' };
+  modifiers.sort((a, b) => MODIFIER_KEYS.indexOf(a) - MODIFIER_KEYS.indexOf(b));
+  return { keys: [...modifiers, key] };
+}
+
+export const formatKeys = (keys: string[] = []) =>
+  keys.map(k => KEY_LABELS[k] ?? (k.length === 1 ? k.toUpperCase() : k.charAt(0).toUpperCase() + k.slice(1))).join('+');
+
+// Short human-readable detail for the HUD and history, e.g. `Ctrl+S ×2` or `"hello world"`.
+export function commandDetail(command: MouseCommand): string {
+  switch (command.action) {
+    case 'move':
+      return command.direction ? `${command.direction} ${command.value}px` : '';
+    case 'scroll':
+      return `${command.direction} ${command.value}${command.unit === 'pixels' ? 'px' : ` step${command.value === 1 ? '' : 's'}`}`;
+    case 'mouse_down':
+    case 'mouse_up':
+      return `${command.button ?? 'left'} button`;
+    case 'type_text': {
+      const text = command.text ?? '';
+      return `"${text.length > 40 ? `${text.slice(0, 40)}…` : text}"`;
+    }
+    case 'key_combo':
+      return `${formatKeys(command.keys)}${command.value > 1 ? ` ×${command.value}` : ''}`;
+    case 'open':
+      return command.application;
+    default:
+      return '';
+  }
+}
+
+const clamp = (n: number, [min, max]: [number, number]) => Math.min(max, Math.max(min, n));
+
+const inFrame = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n) && n >= 0 && n <= 1000;
+
+function validateTarget(raw: Record<string, unknown>): { target?: FrameTarget; error?: string } {
+  // Already-built commands carry the target as an object; tool calls pass flat arguments.
+  if (raw.target && typeof raw.target === 'object') {
+    const t = raw.target as Partial<FrameTarget>;
+    const box = t.box ? [t.box.ymin, t.box.xmin, t.box.ymax, t.box.xmax] : undefined;
+    return validateTarget({ x: t.x, y: t.y, box, target: t.label });
+  }
+  const box = raw.box;
+  const hasPoint = raw.x !== undefined || raw.y !== undefined;
+  if (!hasPoint && box === undefined) return {};
+
+  let parsedBox: FrameTarget['box'];
+  if (box !== undefined) {
+    if (!Array.isArray(box) || box.length !== 4 || !box.every(inFrame)) {
+      return { error: 'box must be [ymin, xmin, ymax, xmax] with values from 0 to 1000' };
+    }
+    const [ymin, xmin, ymax, xmax] = box as number[];
+    if (ymin >= ymax || xmin >= xmax) return { error: 'box min values must be smaller than its max values' };
+    parsedBox = { ymin, xmin, ymax, xmax };
+  }
+
+  let x: number;
+  let y: number;
+  if (hasPoint) {
+    if (!inFrame(raw.x) || !inFrame(raw.y)) return { error: 'x and y must both be numbers from 0 to 1000' };
+    x = raw.x;
+    y = raw.y;
+  } else {
+    x = (parsedBox.xmin + parsedBox.xmax) / 2;
+    y = (parsedBox.ymin + parsedBox.ymax) / 2;
+  }
+
+  const label = typeof raw.target === 'string' && raw.target.trim() ? raw.target.trim() : undefined;
+  return { target: { x: Math.round(x), y: Math.round(y), box: parsedBox, label } };
+}
+
+export function validateMouseCommand(input: unknown): ValidationResult {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { ok: false, error: 'Command must be a JSON object' };
+  }
+  const raw = input as Record<string, unknown>;
+
+  const action = raw.action as Action;
+  if (!ACTIONS.includes(action)) {
+    return { ok: false, error: `Unknown action "${String(raw.action)}"; expected one of ${ACTIONS.join(', ')}` };
+  }
+
+  const { target, error: targetError } = validateTarget(raw);
+  if (targetError) return { ok: false, error: targetError };
+  if (target && !TARGETABLE.includes(action)) return { ok: false, error: `"${action}" does not take a screen target` };
+
+  const unit = action === 'scroll' ? (raw.unit === 'pixels' ? 'pixels' : 'steps') : undefined;
+  const range = unit === 'pixels' ? PIXEL_SCROLL_RANGE : VALUE_RANGES[action];
+  let direction: Direction = '';
+  let value = 0;
+  // An absolute move needs no direction or distance.
+  if (range && !(action === 'move' && target)) {
+    // The model sometimes passes the user's own word ("arriba", "links") instead of the enum value.
+    direction = directionFromWord(raw.direction) ?? '';
+    if (!DIRECTIONS.includes(direction)) {
+      return { ok: false, error: `"${action}" needs a direction of ${DIRECTIONS.join(', ')}` };
+    }
+    const rawValue = typeof raw.value === 'string' ? Number(raw.value) : raw.value;
+    if (typeof rawValue !== 'number' || !Number.isFinite(rawValue)) {
+      return { ok: false, error: `"${action}" needs a numeric value` };
+    }
+    value = Math.round(clamp(rawValue, range));
+  }
+
+  let application = '';
+  if (action === 'open') {
+    application = typeof raw.application === 'string' ? raw.application.trim() : '';
+    if (!application) return { ok: false, error: '"open" needs an application name' };
+    if (UNSAFE_APPLICATION_CHARS.test(application)) {
+      return { ok: false, error: 'application name may not contain & | < > ^ " % or line breaks' };
+    }
+  }
+
+  const command: MouseCommand = { action, direction, value, application };
+  if (target) command.target = target;
+  if (unit) command.unit = unit;
+
+  if (action === 'mouse_down' || action === 'mouse_up') {
+    if (raw.button !== undefined && raw.button !== 'left' && raw.button !== 'right') {
+      return { ok: false, error: 'button must be "left" or "right"' };
+    }
+    command.button = raw.button === 'right' ? 'right' : 'left';
+  }
+
+  if (action === 'type_text') {
+    // Keep line breaks and tabs, drop other control characters.
+    const text = typeof raw.text === 'string' ? raw.text.replace(/[\u0000-\u0008\u000b-\u001f\u007f]/g, '') : '';
+    if (!text) return { ok: false, error: '"type_text" needs the text to type' };
+    if (text.length > MAX_TEXT_LENGTH) return { ok: false, error: `text is limited to ${MAX_TEXT_LENGTH} characters` };
+    command.text = text;
+  }
+
+  if (action === 'key_combo') {
+    const { keys, error: keyError } = parseKeyCombo(raw.keys);
+    if (keyError) return { ok: false, error: keyError };
+    command.keys = keys;
+    const repeat = raw.value === undefined ? 1 : typeof raw.value === 'string' ? Number(raw.value) : raw.value;
+    if (typeof repeat !== 'number' || !Number.isFinite(repeat)) return { ok: false, error: 'value must be a repeat count' };
+    command.value = Math.round(clamp(repeat, KEY_REPEAT_RANGE));
+  }
+
+  const screenPoint = raw.screenPoint as MouseCommand['screenPoint'];
+  if (screenPoint !== undefined) {
+    const valid = (n: unknown) => typeof n === 'number' && Number.isFinite(n) && n >= 0;
+    if (!target || !valid(screenPoint?.x) || !valid(screenPoint?.y)) return { ok: false, error: 'Invalid screen point' };
+    command.screenPoint = { x: Math.round(screenPoint.x), y: Math.round(screenPoint.y) };
+  }
+  return { ok: true, command };
+}
+
+const directionParam = {
+  type: Type.STRING,
+  enum: DIRECTIONS,
+  description: 'Direction to move or scroll in.',
+};
+
+// Optional absolute target, only usable while the whole screen is shared.
+const targetParams = {
+  x: { type: Type.NUMBER, description: 'Horizontal position on the shared screen, 0 (left) to 1000 (right).' },
+  y: { type: Type.NUMBER, description: 'Vertical position on the shared screen, 0 (top) to 1000 (bottom).' },
+  box: {
+    type: Type.ARRAY,
+    items: { type: Type.NUMBER },
+    description: 'Bounding box of the UI element as [ymin, xmin, ymax, xmax], each 0-1000. Its center is used when x/y are omitted.',
+  },
+  target: { type: Type.STRING, description: 'Short name of the UI element being targeted, e.g. "Save button".' },
+};
+
+const clickTool = (name: string, description: string, extraParams = {}): FunctionDeclaration => ({
+  name,
+  description: `${description} Give x/y or box to aim at a visible element of the shared screen first; omit them to use the current pointer position.`,
+  parameters: { type: Type.OBJECT, properties: { ...extraParams, ...targetParams } },
+});
+
+const buttonParam = { button: { type: Type.STRING, enum: ['left', 'right'], description: 'Mouse button, left by default.' } };
+
+export const MOUSE_ACTION_TOOLS: FunctionDeclaration[] = [
+  {
+    name: 'move',
+    description: 'Move the mouse pointer, either relative to its current position (direction and value) or to a point on the shared screen (x/y or box).',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        direction: directionParam,
+        value: { type: Type.NUMBER, description: 'Distance in pixels (1-2000).' },
+        ...targetParams,
+      },
+    },
+  },
+  clickTool('left_click', 'Click the left mouse button.'),
+  clickTool('right_click', 'Click the right mouse button.'),
+  clickTool('double_click', 'Double-click the left mouse button.'),
+  clickTool('mouse_down', 'Press and hold a mouse button, e.g. to start a drag. Always follow with mouse_up.', buttonParam),
+  clickTool('mouse_up', 'Release a held mouse button, e.g. at the drop position of a drag.', buttonParam),
+  {
+    name: 'scroll',
+    description: 'Scroll the content under the pointer by an exact amount.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        direction: directionParam,
+        value: { type: Type.NUMBER, description: 'Amount to scroll: wheel steps (1-50) or pixels (1-5000).' },
+        unit: { type: Type.STRING, enum: ['steps', 'pixels'], description: 'Unit of value, steps by default.' },
+      },
+      required: ['direction', 'value'],
+    },
+  },
+  {
+    name: 'type_text',
+    description: 'Type text into the focused field as if on the keyboard, e.g. when the user dictates "type: hello world".',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { text: { type: Type.STRING, description: 'Exact text to type (up to 1000 characters).' } },
+      required: ['text'],
+    },
+  },
+  {
+    name: 'key_combo',
+    description: 'Press a key or keyboard shortcut, e.g. "ctrl+s", "alt+tab", "cmd+shift+t" or "enter".',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        keys: {
+          type: Type.STRING,
+          description: `Keys joined with "+". Modifiers: ${MODIFIER_KEYS.join(', ')}. Keys: a-z, 0-9, ${NAMED_KEYS.join(', ')}.`,
+        },
+        value: { type: Type.NUMBER, description: 'How many times to press it (1-20), 1 by default.' },
+      },
+      required: ['keys'],
+    },
+  },
+  {
+    name: 'open',
+    description: 'Launch an application on the operating system.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        application: { type: Type.STRING, description: 'Name of the application to open.' },
+      },
+      required: ['application'],
+    },
+  },
+];
+
+export const isMouseActionTool = (name?: string) => MOUSE_ACTION_TOOLS.some(t => t.name === name);
+
+export function commandFromToolCall(name: string, args: Record<string, unknown> = {}): ValidationResult {
+  return validateMouseCommand({ ...args, action: name });
+}
+
+// Returns each top-level {...} span, respecting strings and escapes so braces inside values don't count.
+// A trailing unterminated object (partial output) is returned as-is so the caller can report it.
+export function findJsonObjects(text: string): string[] {
+  const objects: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"' && depth > 0) inString = true;
+    else if (ch === '{') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (ch === '}' && depth > 0) {
+      depth--;
+      if (depth === 0) objects.push(text.slice(start, i + 1));
+    }
+  }
+  if (depth > 0) objects.push(text.slice(start));
+  return objects;
+}
+
+// Fallback for models that emit raw JSON in text instead of calling the tools.
+export function parseMouseCommands(text: string): { commands: MouseCommand[]; errors: string[] } {
+  const commands: MouseCommand[] = [];
+  const errors: string[] = [];
+
+  for (const candidate of findJsonObjects(text)) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(candidate);
+    } catch {
+      errors.push(`Malformed JSON: ${candidate.slice(0, 80)}`);
+      continue;
+    }
+    const result = validateMouseCommand(parsed);
+    if (result.ok) commands.push(result.command);
+    else errors.push(result.error);
+  }
+  return { commands, errors };
+}
@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { PlaybackBuffer } from './playback-buffer';
+
+const ones = (length: number, value = 1) => new Float32Array(length).fill(value);
+
+describe('PlaybackBuffer', () => {
+  let buffer: PlaybackBuffer;
+
+  const render = (length: number) => {
+    const out = new Float32Array(length);
+    buffer.render(out);
+    return [...out];
+  };
+
+  // Starts playback and gets past the fade-in, leaving `left` samples queued.
+  const startPlaying = (left: number) => {
+    buffer.push(ones(4 + left));
+    render(4);
+  };
+
+  beforeEach(() => {
+    buffer = new PlaybackBuffer({ prebufferSamples: 4, fadeSamples: 4, declickSamples: 2, duckSamples: 4, initialCapacity: 8 });
+  });
+
+  it('stays silent until the prebuffer is full, then fades in', () => {
+    buffer.push(ones(3));
+    expect(render(2)).toEqual([0, 0]);
+    expect(buffer.buffered).toBe(3);
+
+    buffer.push(ones(3));
+    expect(render(4)).toEqual([0, 0.5, 1, 1]);
+    expect(buffer.played).toBe(4);
+    expect(buffer.buffered).toBe(2);
+  });
+
+  it('plays a tail shorter than the prebuffer once drained', () => {
+    buffer.push(ones(2));
+    expect(render(2)).toEqual([0, 0]);
+    buffer.drain();
+    expect(render(2)).toEqual([0, 0.5]);
+    expect(buffer.buffered).toBe(0);
+  });
+
+  it('ramps down on an underrun and waits for a fresh prebuffer', () => {
+    startPlaying(1);
+    expect(render(4)).toEqual([1, 1, 0.5, 0]);
+
+    buffer.push(ones(2));
+    expect(render(2)).toEqual([0, 0]);
+    expect(buffer.buffered).toBe(2);
+  });
+
+  it('grows past its initial capacity without reordering samples', () => {
+    buffer.push(Float32Array.from([1, 2, 3, 4, 5, 6]));
+    render(4);
+    buffer.push(Float32Array.from([7, 8, 9, 10, 11, 12, 13, 14]));
+    expect(render(10)).toEqual([5, 6, 7, 8, 9, 10, 11, 12, 13, 14]);
+  });
+
+  describe('interrupt', () => {
+    it('fades out from full gain and drops what was queued', () => {
+      startPlaying(10);
+      buffer.interrupt();
+      expect(render(6)).toEqual([1, 0.75, 0.5, 0, 0, 0]);
+      expect(buffer.buffered).toBe(0);
+    });
+
+    it('scales a short fade to the audio that is left', () => {
+      startPlaying(2);
+      buffer.interrupt();
+      expect(render(3)).toEqual([1, 0, 0]);
+    });
+
+    it('keeps audio pushed during the fade', () => {
+      startPlaying(10);
+      buffer.interrupt();
+      render(2);
+      buffer.push(ones(4, 0.5));
+      render(2);
+      expect(buffer.buffered).toBe(4);
+      expect(render(4)).toEqual([0, 0.25, 0.5, 0.5]);
+    });
+
+    it('clears at once when nothing is playing', () => {
+      buffer.push(ones(3));
+      buffer.interrupt();
+      expect(buffer.buffered).toBe(0);
+      buffer.push(ones(3));
+      expect(render(2)).toEqual([0, 0]);
+    });
+  });
+
+  it('ramps the ducking gain towards its target', () => {
+    startPlaying(8);
+    buffer.duck(0.5);
+    expect(render(4)).toEqual([0.75, 0.5, 0.5, 0.5]);
+    buffer.duck(1);
+    expect(render(4)).toEqual([0.75, 1, 1, 1]);
+  });
+});
@@ -0,0 +1,149 @@
+export interface PlaybackBufferOptions {
+  // Samples held back before playback (re)starts, so network jitter doesn't turn into gaps.
+  prebufferSamples: number;
+  // Length of the fade-out when the model is interrupted.
+  fadeSamples: number;
+  // Short ramps around underruns so starting and stopping mid-waveform doesn't click.
+  declickSamples: number;
+  // Time for the ducking gain to reach its target.
+  duckSamples: number;
+  initialCapacity?: number;
+}
+
+// Growable mono ring buffer with a jitter buffer, click-free starts/stops, fast fade-out and ducking.
+// Runs inside the playback worklet; kept free of worklet globals so it can be exercised directly.
+export class PlaybackBuffer {
+  private ring: Float32Array;
+  private readIndex = 0;
+  private size = 0;
+  private playing = false;
+  // Set at the end of a model turn so the tail plays even if it's shorter than the prebuffer.
+  private draining = false;
+  private fadeIn = 0;
+  private fadeOut = 0;
+  // Length of the running fade-out, which is shorter than fadeSamples when less audio was left.
+  private fadeLength = 0;
+  // Samples queued behind the fade-out when it started; dropped once it ends.
+  private stale = 0;
+  private declick = 0;
+  private lastSample = 0;
+  private duckGain = 1;
+  private duckTarget = 1;
+  // Samples taken out of the buffer and sent to the speakers since the start.
+  played = 0;
+
+  constructor(private options: PlaybackBufferOptions) {
+    this.ring = new Float32Array(options.initialCapacity ?? options.prebufferSamples * 64);
+  }
+
+  get buffered() {
+    return this.size;
+  }
+
+  push(samples: Float32Array) {
+    if (this.size + samples.length > this.ring.length) this.grow(this.size + samples.length);
+    let write = (this.readIndex + this.size) % this.ring.length;
+    for (let i = 0; i < samples.length; i++) {
+      this.ring[write] = samples[i];
+      write = write + 1 === this.ring.length ? 0 : write + 1;
+    }
+    this.size += samples.length;
+  }
+
+  drain() {
+    this.draining = true;
+  }
+
+  // Fades out what is playing and drops everything queued once the fade ends. Audio pushed during the fade is
+  // kept and starts after a fresh prebuffer, so the reply that follows a barge-in isn't cut.
+  interrupt() {
+    this.draining = false;
+    if (!this.playing || this.size === 0) {
+      this.clear();
+      return;
+    }
+    if (this.fadeOut === 0) this.fadeLength = this.fadeOut = Math.min(this.options.fadeSamples, this.size);
+    this.stale = this.size - this.fadeOut;
+  }
+
+  duck(gain: number) {
+    this.duckTarget = gain;
+  }
+
+  render(out: Float32Array) {
+    const duckStep = 1 / Math.max(1, this.options.duckSamples);
+    for (let i = 0; i < out.length; i++) {
+      if (this.duckGain !== this.duckTarget) {
+        this.duckGain = this.duckGain < this.duckTarget
+          ? Math.min(this.duckTarget, this.duckGain + duckStep)
+          : Math.max(this.duckTarget, this.duckGain - duckStep);
+      }
+
+      if (!this.playing && (this.size >= this.options.prebufferSamples || (this.draining && this.size > 0))) {
+        this.playing = true;
+        this.fadeIn = this.options.declickSamples;
+      }
+
+      if (!this.playing || this.size === 0) {
+        if (this.playing) {
+          // Underrun: ramp the last sample down instead of jumping to zero, then wait for a fresh prebuffer.
+          this.playing = false;
+          this.draining = false;
+          this.declick = this.options.declickSamples;
+        }
+        out[i] = this.declick > 0 ? this.lastSample * (this.declick-- / this.options.declickSamples) : 0;
+        continue;
+      }
+
+      let sample = this.ring[this.readIndex];
+      this.readIndex = this.readIndex + 1 === this.ring.length ? 0 : this.readIndex + 1;
+      this.size--;
+      this.played++;
+
+      if (this.fadeIn > 0) sample *= 1 - this.fadeIn-- / this.options.declickSamples;
+      if (this.fadeOut > 0) {
+        sample *= this.fadeOut / this.fadeLength;
+        if (--this.fadeOut === 0) {
+          this.dropStale();
+          sample = 0;
+        }
+      }
+      sample *= this.duckGain;
+      this.lastSample = sample;
+      out[i] = sample;
+    }
+  }
+
+  private clear() {
+    this.readIndex = 0;
+    this.size = 0;
+    this.stop();
+  }
+
+  private dropStale() {
+    this.readIndex = (this.readIndex + this.stale) % this.ring.length;
+    this.size -= this.stale;
+    // A drain() after the interrupt belongs to the kept audio.
+    const draining = this.draining;
+    this.stop();
+    this.draining = draining;
+  }
+
+  private stop() {
+    this.playing = false;
+    this.draining = false;
+    this.fadeOut = 0;
+    this.stale = 0;
+    this.declick = 0;
+    this.lastSample = 0;
+  }
+
+  private grow(minimum: number) {
+    let capacity = this.ring.length * 2;
+    while (capacity < minimum) capacity *= 2;
+    const next = new Float32Array(capacity);
+    for (let i = 0; i < this.size; i++) next[i] = this.ring[(this.readIndex + i) % this.ring.length];
+    this.ring = next;
+    this.readIndex = 0;
+  }
+}
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BackoffOptions, Reconnector, backoffDelay } from './reconnect';
+
+const OPTIONS: BackoffOptions = { baseMs: 100, maxMs: 1000, maxAttempts: 3, jitter: 0.2 };
+
+describe('backoffDelay', () => {
+  it('doubles per attempt up to the maximum', () => {
+    const middle = () => 0.5;
+    expect([0, 1, 2, 3, 4, 10].map(attempt => backoffDelay(attempt, OPTIONS, middle))).toEqual([100, 200, 400, 800, 1000, 1000]);
+  });
+
+  it('spreads the delay by the jitter fraction either way', () => {
+    expect(backoffDelay(1, OPTIONS, () => 0)).toBe(160);
+    expect(backoffDelay(1, OPTIONS, () => 1)).toBe(240);
+  });
+});
+
+describe('Reconnector', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  const create = (connect: () => Promise<void>) => {
+    const hooks = { onRetry: vi.fn(), onGiveUp: vi.fn() };
+    return { reconnector: new Reconnector(connect, hooks, OPTIONS), hooks };
+  };
+
+  it('retries after the backoff delay', async () => {
+    const connect = vi.fn(async () => {});
+    const { reconnector, hooks } = create(connect);
+    reconnector.handleDrop('socket closed');
+
+    expect(hooks.onRetry).toHaveBeenCalledWith(1, 100, 'socket closed');
+    await vi.advanceTimersByTimeAsync(99);
+    expect(connect).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(connect).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores further drops while a retry is scheduled', () => {
+    const { reconnector, hooks } = create(async () => {});
+    reconnector.handleDrop('error');
+    reconnector.handleDrop('close');
+    expect(hooks.onRetry).toHaveBeenCalledTimes(1);
+  });
+
+  it('backs off further after each failed attempt and gives up at the limit', async () => {
+    const connect = vi.fn(() => Promise.reject(new Error('refused')));
+    const { reconnector, hooks } = create(connect);
+    reconnector.handleDrop('socket closed');
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(connect).toHaveBeenCalledTimes(3);
+    expect(hooks.onRetry.mock.calls.map(([attempt, delay]) => [attempt, delay])).toEqual([[1, 100], [2, 200], [3, 400]]);
+    expect(hooks.onGiveUp).toHaveBeenCalledWith('refused');
+    expect(reconnector.attempts).toBe(3);
+  });
+
+  it('starts counting again once connected', async () => {
+    const { reconnector, hooks } = create(async () => {});
+    reconnector.handleDrop('first');
+    await vi.advanceTimersByTimeAsync(100);
+    reconnector.connected();
+    reconnector.handleDrop('second');
+
+    expect(hooks.onRetry).toHaveBeenLastCalledWith(1, 100, 'second');
+  });
+
+  it('does nothing after cancel', async () => {
+    const connect = vi.fn(async () => {});
+    const { reconnector, hooks } = create(connect);
+    reconnector.handleDrop('socket closed');
+    reconnector.cancel();
+    await vi.advanceTimersByTimeAsync(1000);
+    reconnector.handleDrop('again');
+
+    expect(connect).not.toHaveBeenCalled();
+    expect(hooks.onRetry).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,67 @@
+export interface BackoffOptions {
+  baseMs: number;
+  maxMs: number;
+  maxAttempts: number;
+  jitter: number;
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  baseMs: 500,
+  maxMs: 15000,
+  maxAttempts: 6,
+  jitter: 0.2,
+};
+
+export function backoffDelay(attempt: number, options: BackoffOptions = DEFAULT_BACKOFF, random = Math.random): number {
+  const exponential = Math.min(options.maxMs, options.baseMs * 2 ** attempt);
+  const spread = exponential * options.jitter;
+  return Math.round(exponential - spread + random() * spread * 2);
+}
+
+export interface ReconnectHooks {
+  onRetry: (attempt: number, delayMs: number, reason: string) => void;
+  onGiveUp: (reason: string) => void;
+}
+
+// Drives retries for a dropped connection. `connect` is injected so a mock socket can stand in for the Live API.
+export class Reconnector {
+  private attempt = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private cancelled = false;
+
+  constructor(
+    private connect: () => Promise<void>,
+    private hooks: ReconnectHooks,
+    private options: BackoffOptions = DEFAULT_BACKOFF,
+  ) {}
+
+  get attempts() {
+    return this.attempt;
+  }
+
+  handleDrop(reason: string) {
+    if (this.cancelled || this.timer) return;
+    if (this.attempt >= this.options.maxAttempts) {
+      this.hooks.onGiveUp(reason);
+      return;
+    }
+    const delay = backoffDelay(this.attempt, this.options);
+    this.attempt++;
+    this.hooks.onRetry(this.attempt, delay, reason);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      if (this.cancelled) return;
+      this.connect().catch(err => this.handleDrop(err?.message || 'Reconnect failed'));
+    }, delay);
+  }
+
+  connected() {
+    this.attempt = 0;
+  }
+
+  cancel() {
+    this.cancelled = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+}
@@ -0,0 +1,191 @@
+import { encodeWav } from './audio-utils';
+import { Caption, appendCaption, closeCaption, toWebVtt } from './webvtt';
+import { downloadFile } from './session-history';
+
+export type RecordingFormat = 'webm' | 'wav';
+
+export interface Recording {
+  startedAt: number;
+  durationMs: number;
+  audio: Blob;
+  // Only present when the camera or screen was on as recording started.
+  video: Blob | null;
+  captions: Caption[];
+  // The browser refused to mix the microphone in for at least part of the recording.
+  micMissing: boolean;
+}
+
+export interface RecorderSources {
+  mic: MediaStream | null;
+  isMicMuted: boolean;
+  video: HTMLVideoElement | null;
+}
+
+const AUDIO_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4'];
+const VIDEO_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+const VIDEO_FPS = 15;
+const VIDEO_WIDTH = 1280;
+const VIDEO_HEIGHT = 720;
+// Chunks are flushed periodically so a crash mid-session loses at most this much.
+const TIMESLICE_MS = 1000;
+const WAV_SAMPLE_RATE = 24000;
+
+export const supportsRecording = () => typeof MediaRecorder !== 'undefined';
+
+const pickMimeType = (types: string[]) => types.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+
+interface Track {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+}
+
+function startTrack(stream: MediaStream, types: string[]): Track {
+  const mimeType = pickMimeType(types);
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => { if (e.data.size) chunks.push(e.data); };
+  recorder.start(TIMESLICE_MS);
+  return { recorder, chunks };
+}
+
+function finishTrack({ recorder, chunks }: Track): Promise<Blob> {
+  return new Promise(resolve => {
+    const done = () => resolve(new Blob(chunks, { type: recorder.mimeType }));
+    if (recorder.state === 'inactive') return done();
+    recorder.onstop = done;
+    recorder.stop();
+  });
+}
+
+// Mixes the microphone and the model's playback into one track, on the playback context so model audio
+// lands exactly where it was scheduled. Video is redrawn onto a canvas, which keeps a single video track
+// even when the source switches between camera and screen mid-recording.
+export class SessionRecorder {
+  private mix: MediaStreamAudioDestinationNode | null = null;
+  private micGain: GainNode | null = null;
+  private micSource: MediaStreamAudioSourceNode | null = null;
+  private canvasTrack: MediaStreamTrack | null = null;
+  private drawTimer: number | null = null;
+  private audioTrack: Track | null = null;
+  private videoTrack: Track | null = null;
+  private captions: Caption[] = [];
+  private startedAt = 0;
+  private micMissing = false;
+
+  constructor(private ctx: AudioContext, private modelOutput: AudioNode, private now: () => number = Date.now) {}
+
+  get isRecording() {
+    return !!this.audioTrack;
+  }
+
+  get isMicMissing() {
+    return this.micMissing;
+  }
+
+  start({ mic, isMicMuted, video }: RecorderSources) {
+    if (this.audioTrack) return;
+    this.mix = this.ctx.createMediaStreamDestination();
+    this.micGain = this.ctx.createGain();
+    this.micGain.connect(this.mix);
+    this.modelOutput.connect(this.mix);
+    this.micMissing = false;
+    this.setMicrophone(mic);
+    this.setMicMuted(isMicMuted);
+
+    this.captions = [];
+    this.startedAt = this.now();
+    this.audioTrack = startTrack(this.mix.stream, AUDIO_TYPES);
+    if (video) {
+      this.canvasTrack = this.startVideo(video);
+      this.videoTrack = startTrack(new MediaStream([this.canvasTrack, ...this.mix.stream.getAudioTracks()]), VIDEO_TYPES);
+    }
+  }
+
+  // Follows microphone swaps so the recording keeps going on the new device.
+  setMicrophone(mic: MediaStream | null) {
+    this.micSource?.disconnect();
+    this.micSource = null;
+    if (!mic || !this.micGain) return;
+    try {
+      this.micSource = this.ctx.createMediaStreamSource(mic);
+      this.micSource.connect(this.micGain);
+    } catch (err) {
+      // Some browsers (Firefox) refuse a stream whose rate differs from the 24 kHz playback context. Model audio
+      // can only be mixed there, so the recording goes on without the microphone and the app tells the user.
+      console.warn('Microphone could not be mixed into the recording:', err);
+      this.micMissing = true;
+    }
+  }
+
+  setMicMuted(muted: boolean) {
+    if (this.micGain) this.micGain.gain.value = muted ? 0 : 1;
+  }
+
+  // delayMs: how long until the chunk is actually heard, e.g. model audio still queued for playback.
+  caption(role: Caption['role'], chunk: string, delayMs = 0) {
+    if (this.audioTrack) this.captions = appendCaption(this.captions, role, chunk, this.now() - this.startedAt + delayMs);
+  }
+
+  endCaption(delayMs = 0) {
+    if (this.audioTrack) this.captions = closeCaption(this.captions, this.now() - this.startedAt + delayMs);
+  }
+
+  async stop(): Promise<Recording | null> {
+    const { audioTrack, videoTrack, mix, micGain, micSource, canvasTrack, drawTimer, startedAt, micMissing } = this;
+    if (!audioTrack) return null;
+    const durationMs = this.now() - startedAt;
+    const captions = closeCaption(this.captions, durationMs);
+    // Reset first so a new recording can start while this one is still flushing.
+    this.audioTrack = this.videoTrack = null;
+    this.mix = this.micGain = this.micSource = this.canvasTrack = this.drawTimer = null;
+
+    const [audio, video] = await Promise.all([finishTrack(audioTrack), videoTrack ? finishTrack(videoTrack) : null]);
+    if (drawTimer !== null) clearInterval(drawTimer);
+    canvasTrack?.stop();
+    micSource?.disconnect();
+    micGain.disconnect();
+    this.modelOutput.disconnect(mix);
+    return { startedAt, durationMs, audio, video, captions, micMissing };
+  }
+
+  private startVideo(video: HTMLVideoElement): MediaStreamTrack {
+    const canvas = document.createElement('canvas');
+    canvas.width = VIDEO_WIDTH;
+    canvas.height = VIDEO_HEIGHT;
+    const g = canvas.getContext('2d');
+    const draw = () => {
+      g.fillStyle = '#000';
+      g.fillRect(0, 0, VIDEO_WIDTH, VIDEO_HEIGHT);
+      // Black while the camera or screen is off.
+      if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) return;
+      const scale = Math.min(VIDEO_WIDTH / video.videoWidth, VIDEO_HEIGHT / video.videoHeight);
+      const width = video.videoWidth * scale;
+      const height = video.videoHeight * scale;
+      g.drawImage(video, (VIDEO_WIDTH - width) / 2, (VIDEO_HEIGHT - height) / 2, width, height);
+    };
+    draw();
+    // A timer rather than requestAnimationFrame, which stops entirely in background tabs.
+    this.drawTimer = window.setInterval(draw, 1000 / VIDEO_FPS);
+    return canvas.captureStream(VIDEO_FPS).getVideoTracks()[0];
+  }
+}
+
+const fileExtension = (blob: Blob) => (blob.type.includes('mp4') ? 'mp4' : 'webm');
+
+// WAV is decoded from the compressed audio track; WebM is the video recording when there is one.
+export async function exportRecording(recording: Recording, format: RecordingFormat) {
+  const stamp = new Date(recording.startedAt).toISOString().replace(/[:.]/g, '-');
+  if (format === 'wav') {
+    const decoder = new OfflineAudioContext(1, 1, WAV_SAMPLE_RATE);
+    const buffer = await decoder.decodeAudioData(await recording.audio.arrayBuffer());
+    downloadFile(`session-${stamp}.wav`, encodeWav(buffer), 'audio/wav');
+  } else {
+    const media = recording.video ?? recording.audio;
+    downloadFile(`session-${stamp}.${fileExtension(media)}`, media, media.type);
+  }
+}
+
+export function exportCaptions(recording: Recording) {
+  const stamp = new Date(recording.startedAt).toISOString().replace(/[:.]/g, '-');
+  downloadFile(`session-${stamp}.vtt`, toWebVtt(recording.captions), 'text/vtt');
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { Resampler } from './resampler';
+
+const sine = (length: number, rate: number, frequency = 440) =>
+  Float32Array.from({ length }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / rate));
+
+const concat = (chunks: Float32Array[]) => {
+  const out = new Float32Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+};
+
+describe('Resampler', () => {
+  it('passes audio through when the rates match', () => {
+    const input = sine(128, 16000);
+    expect(new Resampler(16000, 16000).process(input)).toBe(input);
+  });
+
+  it('turns 48 kHz into a third as many 16 kHz samples', () => {
+    expect(new Resampler(48000, 16000).process(new Float32Array(4800))).toHaveLength(1600);
+  });
+
+  it('averages each window when downsampling', () => {
+    expect(Array.from(new Resampler(48000, 16000).process(new Float32Array([0, 0.3, 0.6, 1, 1, 1])))).toEqual([
+      expect.closeTo(0.3, 6),
+      1,
+    ]);
+  });
+
+  it('gives the same output whether the input arrives whole or in uneven chunks', () => {
+    const input = sine(4800, 48000);
+    const whole = new Resampler(48000, 16000).process(input);
+
+    const chunked = new Resampler(48000, 16000);
+    const sizes = [128, 1, 127, 500, 1000, 3044];
+    const chunks: Float32Array[] = [];
+    let offset = 0;
+    for (const size of sizes) {
+      chunks.push(chunked.process(input.subarray(offset, offset + size)));
+      offset += size;
+    }
+    const joined = concat(chunks);
+
+    expect(joined).toHaveLength(whole.length);
+    joined.forEach((sample, i) => expect(sample).toBeCloseTo(whole[i], 6));
+  });
+
+  it('carries a fractional position across chunks when upsampling', () => {
+    const input = sine(1600, 16000);
+    const whole = new Resampler(16000, 24000).process(input);
+    const chunked = new Resampler(16000, 24000);
+    const joined = concat([chunked.process(input.subarray(0, 333)), chunked.process(input.subarray(333))]);
+
+    expect(joined).toHaveLength(whole.length);
+    joined.forEach((sample, i) => expect(sample).toBeCloseTo(whole[i], 6));
+  });
+
+  it('starts from scratch after reset', () => {
+    const resampler = new Resampler(48000, 16000);
+    resampler.process(new Float32Array([1, 1]));
+    resampler.reset();
+    expect(Array.from(resampler.process(new Float32Array([0, 0, 0])))).toEqual([0]);
+  });
+});
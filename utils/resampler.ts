@@ -0,0 +1,51 @@
+// Streaming mono resampler. State carries across calls so chunk boundaries don't produce clicks.
+// Downsampling averages each output sample's input window (a box filter) to keep aliasing down;
+// upsampling interpolates linearly.
+export class Resampler {
+  private readonly ratio: number;
+  private pending = new Float32Array(0);
+  private position = 0;
+
+  constructor(readonly fromRate: number, readonly toRate: number) {
+    this.ratio = fromRate / toRate;
+  }
+
+  process(input: Float32Array): Float32Array {
+    if (this.ratio === 1) return input;
+
+    const data = new Float32Array(this.pending.length + input.length);
+    data.set(this.pending);
+    data.set(input, this.pending.length);
+
+    const out = new Float32Array(Math.ceil((data.length - this.position) / this.ratio) + 1);
+    let count = 0;
+    let pos = this.position;
+
+    if (this.ratio > 1) {
+      while (pos + this.ratio <= data.length) {
+        const start = Math.floor(pos);
+        const end = Math.floor(pos + this.ratio);
+        let sum = 0;
+        for (let i = start; i < end; i++) sum += data[i];
+        out[count++] = sum / (end - start);
+        pos += this.ratio;
+      }
+    } else {
+      while (pos + 1 < data.length) {
+        const i = Math.floor(pos);
+        out[count++] = data[i] + (data[i + 1] - data[i]) * (pos - i);
+        pos += this.ratio;
+      }
+    }
+
+    const consumed = Math.floor(pos);
+    this.pending = data.slice(consumed);
+    this.position = pos - consumed;
+    return out.subarray(0, count);
+  }
+
+  reset() {
+    this.pending = new Float32Array(0);
+    this.position = 0;
+  }
+}
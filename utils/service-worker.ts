@@ -0,0 +1,29 @@
+// Registers the build's service worker and reports when a newer version is waiting to take over.
+// `onUpdate` receives a callback that activates the new worker and reloads the page.
+export function registerServiceWorker(onUpdate: (apply: () => void) => void) {
+  // The dev server has no generated sw.js; caching there would only get in the way.
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  const offer = (worker: ServiceWorker) => {
+    onUpdate(() => {
+      let reloaded = false;
+      navigator.serviceWorker.addEventListener('controllerchange', () => {
+        if (reloaded) return;
+        reloaded = true;
+        window.location.reload();
+      });
+      worker.postMessage({ type: 'SKIP_WAITING' });
+    });
+  };
+
+  navigator.serviceWorker.register('/sw.js').then(registration => {
+    // No controller means this is the first install, not an update.
+    if (registration.waiting && navigator.serviceWorker.controller) offer(registration.waiting);
+    registration.addEventListener('updatefound', () => {
+      const installing = registration.installing;
+      installing?.addEventListener('statechange', () => {
+        if (installing.state === 'installed' && navigator.serviceWorker.controller) offer(installing);
+      });
+    });
+  }).catch(err => console.warn('Service worker registration failed', err));
+}
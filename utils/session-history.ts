@@ -0,0 +1,116 @@
+import { LatencyStats, SessionRecord } from '../types';
+
+const DB_NAME = 'gemini-live-history';
+const STORE = 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('startedAt', 'startedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export async function saveSession(record: SessionRecord): Promise<void> {
+  const db = await openDb();
+  await requestToPromise(db.transaction(STORE, 'readwrite').objectStore(STORE).put(record));
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const db = await openDb();
+  await requestToPromise(db.transaction(STORE, 'readwrite').objectStore(STORE).delete(id));
+}
+
+// Newest first.
+export async function listSessions(): Promise<SessionRecord[]> {
+  const db = await openDb();
+  const records = await requestToPromise(db.transaction(STORE).objectStore(STORE).index('startedAt').getAll());
+  return (records as SessionRecord[]).reverse();
+}
+
+export function matchesQuery(record: SessionRecord, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return (
+    record.mode.includes(q) ||
+    record.transcript.some(e => e.text.toLowerCase().includes(q)) ||
+    record.commands.some(c => JSON.stringify(c.command).toLowerCase().includes(q))
+  );
+}
+
+export async function searchSessions(query: string): Promise<SessionRecord[]> {
+  return (await listSessions()).filter(r => matchesQuery(r, query));
+}
+
+const formatTime = (ts: number) => new Date(ts).toLocaleString();
+
+export function sessionToMarkdown(record: SessionRecord): string {
+  const lines = [
+    `# Session ${formatTime(record.startedAt)}`,
+    '',
+    `- Mode: ${record.mode}`,
+    `- Started: ${new Date(record.startedAt).toISOString()}`,
+    `- Ended: ${record.endedAt ? new Date(record.endedAt).toISOString() : 'in progress'}`,
+    '',
+    '## Transcript',
+    '',
+  ];
+  record.transcript.forEach(e => {
+    lines.push(`**${e.role === 'user' ? 'User' : 'Model'}** (${new Date(e.timestamp).toLocaleTimeString()}): ${e.text}`, '');
+  });
+  if (record.commands.length) {
+    lines.push('## Commands', '');
+    record.commands.forEach(c => {
+      const outcome = c.ok ? 'ok' : `failed: ${c.error}`;
+      lines.push(`- ${new Date(c.timestamp).toLocaleTimeString()} \`${JSON.stringify(c.command)}\` — ${outcome}`);
+    });
+  }
+  if (record.metrics) {
+    const { connect, response, media, commands } = record.metrics;
+    const latency = (stats: LatencyStats) => (stats.count ? `p50 ${stats.p50} ms, p95 ${stats.p95} ms (${stats.count})` : 'n/a');
+    lines.push(
+      '', '## Metrics', '',
+      `- Connect: ${latency(connect)}`,
+      `- Response latency: ${latency(response)}`,
+      `- Frames sent: ${media.frames} (${media.bytes} bytes)`,
+      `- Mouse commands: ${commands.parsed} parsed, ${commands.failed} failed`,
+    );
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function downloadFile(filename: string, content: BlobPart, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function exportSessions(records: SessionRecord[], format: 'markdown' | 'json') {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  if (format === 'json') {
+    downloadFile(`sessions-${stamp}.json`, JSON.stringify(records, null, 2), 'application/json');
+  } else {
+    downloadFile(`sessions-${stamp}.md`, records.map(sessionToMarkdown).join('\n---\n\n'), 'text/markdown');
+  }
+}
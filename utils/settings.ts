@@ -0,0 +1,129 @@
+import { AppSettings, InstructionPreset, LiveConfig } from '../types';
+import { DEFAULT_POLICY } from './action-policy';
+import { DEFAULT_HOTKEYS, normalizeHotkeys } from './hotkeys';
+import { DEFAULT_LOCALE, detectLocale, isLocale, messagesFor } from './i18n';
+import { en } from './locales/en';
+
+const STORAGE_KEY = 'gemini-live-settings';
+
+// Use the correct native audio optimized model for Live API
+export const DEFAULT_MODEL = 'gemini-2.5-flash-native-audio-preview-12-2025';
+
+export const MODEL_OPTIONS = [
+  DEFAULT_MODEL,
+  'gemini-2.5-flash-native-audio-preview-09-2025',
+  'gemini-live-2.5-flash-preview',
+  'gemini-2.0-flash-live-001',
+];
+
+export const VOICE_OPTIONS: LiveConfig['voiceName'][] = ['Puck', 'Charon', 'Kore', 'Fenrir', 'Zephyr'];
+
+export const RESOLUTION_OPTIONS = [
+  { width: 320, height: 240 },
+  { width: 640, height: 480 },
+  { width: 1280, height: 720 },
+];
+
+export const MOUSE_SYSTEM_INSTRUCTION = en.instructions.mouse;
+
+export const NORMAL_SYSTEM_INSTRUCTION = en.instructions.normal;
+
+export const BUILTIN_PRESETS: InstructionPreset[] = [
+  { id: 'mouse', name: en.instructions.presetNames.mouse, text: MOUSE_SYSTEM_INSTRUCTION },
+  { id: 'assistant', name: en.instructions.presetNames.normal, text: NORMAL_SYSTEM_INSTRUCTION },
+];
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  locale: DEFAULT_LOCALE,
+  model: DEFAULT_MODEL,
+  voiceName: 'Zephyr',
+  defaultMode: 'mouse',
+  inputMode: 'always-on',
+  pushToTalkKey: 'Space',
+  presets: BUILTIN_PRESETS,
+  mousePresetId: 'mouse',
+  normalPresetId: 'assistant',
+  media: { frameIntervalMs: 1000, jpegQuality: 0.5, width: 640, height: 480 },
+  policy: DEFAULT_POLICY,
+  devices: { audioInputId: '', audioOutputId: '', videoInputId: '' },
+  hotkeys: DEFAULT_HOTKEYS,
+};
+
+const clamp = (n: unknown, min: number, max: number, fallback: number) =>
+  typeof n === 'number' && Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : fallback;
+
+// Stored settings may come from an older build; anything missing or out of range falls back to the default.
+export function normalizeSettings(raw: Partial<AppSettings>): AppSettings {
+  const d = DEFAULT_SETTINGS;
+  const presets = Array.isArray(raw.presets) && raw.presets.length
+    ? raw.presets.filter(p => p && typeof p.id === 'string' && typeof p.text === 'string')
+    : d.presets;
+  const hasPreset = (id?: string) => presets.some(p => p.id === id);
+  const media = raw.media ?? d.media;
+  const policy = raw.policy ?? d.policy;
+  const devices = raw.devices ?? d.devices;
+  const deviceId = (id: unknown) => (typeof id === 'string' ? id : '');
+  const stringList = (list: unknown, fallback: string[]) =>
+    Array.isArray(list) ? list.filter((v): v is string => typeof v === 'string') : fallback;
+
+  return {
+    locale: isLocale(raw.locale) ? raw.locale : detectLocale(),
+    model: typeof raw.model === 'string' && raw.model ? raw.model : d.model,
+    voiceName: VOICE_OPTIONS.includes(raw.voiceName) ? raw.voiceName : d.voiceName,
+    defaultMode: raw.defaultMode === 'normal' ? 'normal' : 'mouse',
+    inputMode: ['always-on', 'vad', 'push-to-talk'].includes(raw.inputMode) ? raw.inputMode : d.inputMode,
+    pushToTalkKey: typeof raw.pushToTalkKey === 'string' && raw.pushToTalkKey ? raw.pushToTalkKey : d.pushToTalkKey,
+    presets,
+    mousePresetId: hasPreset(raw.mousePresetId) ? raw.mousePresetId : presets[0].id,
+    normalPresetId: hasPreset(raw.normalPresetId) ? raw.normalPresetId : presets[presets.length - 1].id,
+    media: {
+      frameIntervalMs: clamp(media.frameIntervalMs, 200, 10000, d.media.frameIntervalMs),
+      jpegQuality: clamp(media.jpegQuality, 0.1, 1, d.media.jpegQuality),
+      width: clamp(media.width, 160, 1920, d.media.width),
+      height: clamp(media.height, 120, 1080, d.media.height),
+    },
+    policy: {
+      allowedApplications: stringList(policy.allowedApplications, d.policy.allowedApplications),
+      deniedApplications: stringList(policy.deniedApplications, d.policy.deniedApplications),
+      confirmActions: stringList(policy.confirmActions, d.policy.confirmActions) as AppSettings['policy']['confirmActions'],
+      maxClicksPerWindow: clamp(policy.maxClicksPerWindow, 1, 100, d.policy.maxClicksPerWindow),
+      clickWindowMs: clamp(policy.clickWindowMs, 1000, 60000, d.policy.clickWindowMs),
+    },
+    devices: {
+      audioInputId: deviceId(devices.audioInputId),
+      audioOutputId: deviceId(devices.audioOutputId),
+      videoInputId: deviceId(devices.videoInputId),
+    },
+    hotkeys: normalizeHotkeys(raw.hotkeys),
+  };
+}
+
+export function loadSettings(): AppSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    // First run normalizes too, so the locale follows the browser language.
+    return normalizeSettings(stored ? JSON.parse(stored) : {});
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveSettings(settings: AppSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn('Could not save settings', err);
+  }
+}
+
+// Built-in presets left as shipped are swapped for the locale's translation; anything the user wrote is
+// sent as-is with a line asking for replies in the selected language.
+export function instructionFor(settings: AppSettings, isMouseMode: boolean): string {
+  const { instructions } = messagesFor(settings.locale);
+  const id = isMouseMode ? settings.mousePresetId : settings.normalPresetId;
+  const preset = settings.presets.find(p => p.id === id);
+  if (!preset) return isMouseMode ? instructions.mouse : instructions.normal;
+  const builtin = BUILTIN_PRESETS.find(p => p.id === preset.id);
+  if (builtin && preset.text === builtin.text) return preset.id === 'mouse' ? instructions.mouse : instructions.normal;
+  return instructions.language ? `${preset.text}\n\n${instructions.language}` : preset.text;
+}
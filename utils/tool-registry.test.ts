@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LiveServerMessage } from '@google/genai';
+import { DEFAULT_TOOL_TIMEOUT_MS, ToolRegistry, ToolResponse, withTimeout } from './tool-registry';
+
+const success = (message?: string): ToolResponse => ({ status: 'success', message });
+
+describe('withTimeout', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it('passes through a result that arrives in time', async () => {
+    await expect(withTimeout(Promise.resolve(42), 1000, 'Job')).resolves.toBe(42);
+  });
+
+  it('rejects with the label once the time is up', async () => {
+    const result = withTimeout(new Promise(() => {}), 2000, 'Job');
+    const assertion = expect(result).rejects.toThrow('Job timed out after 2s');
+    await vi.advanceTimersByTimeAsync(2000);
+    await assertion;
+  });
+});
+
+describe('ToolRegistry', () => {
+  it('refuses nameless and duplicate tools', () => {
+    const registry = new ToolRegistry([{ declaration: { name: 'a' }, handler: async () => success() }]);
+    expect(() => registry.register({ declaration: {}, handler: async () => success() })).toThrow(/need a name/);
+    expect(() => registry.register({ declaration: { name: 'a' }, handler: async () => success() })).toThrow(/already registered/);
+  });
+
+  it('offers mouse-only tools in mouse mode only', () => {
+    const registry = new ToolRegistry([
+      { declaration: { name: 'chat' }, handler: async () => success() },
+      { declaration: { name: 'click' }, mouseModeOnly: true, handler: async () => success() },
+    ]);
+    expect(registry.declarations(false).map(d => d.name)).toEqual(['chat']);
+    expect(registry.declarations(true).map(d => d.name)).toEqual(['chat', 'click']);
+  });
+
+  it('answers unknown and unavailable tools with an error', async () => {
+    const handler = vi.fn(async () => success());
+    const registry = new ToolRegistry([{ declaration: { name: 'click' }, mouseModeOnly: true, handler }]);
+
+    expect(await registry.call({ id: '1', name: 'fly' }, true)).toEqual({
+      id: '1',
+      name: 'fly',
+      response: { status: 'error', error: 'Tool "fly" is not available' },
+    });
+    expect((await registry.call({ id: '2', name: 'click' }, false)).response).toEqual({ status: 'error', error: 'Tool "click" is not available' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('passes the arguments and turns handler errors into error responses', async () => {
+    const registry = new ToolRegistry([
+      { declaration: { name: 'echo' }, handler: async ({ text }) => success(text) },
+      { declaration: { name: 'broken' }, handler: async () => { throw new Error('bridge offline'); } },
+    ]);
+    expect((await registry.call({ id: '1', name: 'echo', args: { text: 'hi' } }, false)).response).toEqual(success('hi'));
+    expect((await registry.call({ id: '2', name: 'broken' }, false)).response).toEqual({ status: 'error', error: 'bridge offline' });
+  });
+
+  describe('timeouts', () => {
+    beforeEach(() => vi.useFakeTimers());
+    afterEach(() => vi.useRealTimers());
+
+    it('gives up on a handler after its timeout, or the default one', async () => {
+      const registry = new ToolRegistry([
+        { declaration: { name: 'slow' }, timeoutMs: 500, handler: () => new Promise(() => {}) },
+        { declaration: { name: 'stuck' }, handler: () => new Promise(() => {}) },
+      ]);
+      const slow = registry.call({ id: '1', name: 'slow' }, false);
+      const stuck = registry.call({ id: '2', name: 'stuck' }, false);
+
+      await vi.advanceTimersByTimeAsync(500);
+      expect((await slow).response).toEqual({ status: 'error', error: 'Tool "slow" timed out after 0.5s' });
+      await vi.advanceTimersByTimeAsync(DEFAULT_TOOL_TIMEOUT_MS - 500);
+      expect((await stuck).response).toEqual({ status: 'error', error: `Tool "stuck" timed out after ${DEFAULT_TOOL_TIMEOUT_MS / 1000}s` });
+    });
+  });
+
+  it('runs exclusive calls one at a time in arrival order, even after a failure', async () => {
+    const log: string[] = [];
+    const step = (name: string, fail = false) => async () => {
+      log.push(`${name} start`);
+      await Promise.resolve();
+      log.push(`${name} end`);
+      if (fail) throw new Error(`${name} failed`);
+      return success();
+    };
+    const registry = new ToolRegistry([
+      { declaration: { name: 'a' }, exclusive: true, handler: step('a', true) },
+      { declaration: { name: 'b' }, exclusive: true, handler: step('b') },
+    ]);
+
+    const responses = await Promise.all([registry.call({ name: 'a' }, false), registry.call({ name: 'b' }, false)]);
+    expect(log).toEqual(['a start', 'a end', 'b start', 'b end']);
+    expect(responses.map(r => r.response.status)).toEqual(['error', 'success']);
+  });
+
+  it('runs other calls concurrently', async () => {
+    const log: string[] = [];
+    const step = (name: string) => async () => {
+      log.push(`${name} start`);
+      await Promise.resolve();
+      log.push(`${name} end`);
+      return success();
+    };
+    const registry = new ToolRegistry([
+      { declaration: { name: 'a' }, handler: step('a') },
+      { declaration: { name: 'b' }, handler: step('b') },
+    ]);
+
+    await Promise.all([registry.call({ name: 'a' }, false), registry.call({ name: 'b' }, false)]);
+    expect(log).toEqual(['a start', 'b start', 'a end', 'b end']);
+  });
+
+  it('dispatches every call in a message and keeps their order', async () => {
+    const registry = new ToolRegistry([
+      { declaration: { name: 'slow' }, handler: () => new Promise(resolve => setTimeout(() => resolve(success('slow')), 5)) },
+      { declaration: { name: 'fast' }, handler: async () => success('fast') },
+    ]);
+    const responses = await registry.dispatch({ toolCall: { functionCalls: [{ id: '1', name: 'slow' }, { id: '2', name: 'fast' }] } } as LiveServerMessage, false);
+    expect(responses.map(r => [r.id, r.response.message])).toEqual([['1', 'slow'], ['2', 'fast']]);
+    expect(await registry.dispatch({} as LiveServerMessage, false)).toEqual([]);
+  });
+});
@@ -0,0 +1,75 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse, LiveServerMessage } from '@google/genai';
+
+export type ToolResponse =
+  | ({ status: 'success'; message?: string } & Record<string, unknown>)
+  | ({ status: 'error'; error: string } & Record<string, unknown>);
+
+export interface ToolDefinition<Args = Record<string, any>> {
+  declaration: FunctionDeclaration;
+  handler: (args: Args) => Promise<ToolResponse>;
+  // Defaults to DEFAULT_TOOL_TIMEOUT_MS. The model gets an error response once it passes.
+  timeoutMs?: number;
+  // Only offered in mouse mode.
+  mouseModeOnly?: boolean;
+  // Calls to exclusive tools run one after another in arrival order (e.g. pointer actions); others run concurrently.
+  exclusive?: boolean;
+}
+
+export const DEFAULT_TOOL_TIMEOUT_MS = 10000;
+
+export function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timed out after ${ms / 1000}s`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+  private exclusiveQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(tools: ToolDefinition<any>[] = []) {
+    tools.forEach(tool => this.register(tool));
+  }
+
+  register(tool: ToolDefinition<any>) {
+    if (!tool.declaration.name) throw new Error('Tool declarations need a name');
+    if (this.tools.has(tool.declaration.name)) throw new Error(`Tool "${tool.declaration.name}" is already registered`);
+    this.tools.set(tool.declaration.name, tool);
+  }
+
+  declarations(isMouseMode: boolean): FunctionDeclaration[] {
+    return [...this.tools.values()].filter(t => isMouseMode || !t.mouseModeOnly).map(t => t.declaration);
+  }
+
+  // Never rejects: unknown tools, handler errors and timeouts all become error responses for the model.
+  async call(fc: FunctionCall, isMouseMode: boolean): Promise<FunctionResponse> {
+    const tool = fc.name ? this.tools.get(fc.name) : undefined;
+    const respond = (response: ToolResponse): FunctionResponse => ({ id: fc.id, name: fc.name, response });
+    if (!tool || (tool.mouseModeOnly && !isMouseMode)) {
+      return respond({ status: 'error', error: `Tool "${fc.name}" is not available` });
+    }
+
+    const run = () => withTimeout(tool.handler(fc.args ?? {}), tool.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS, `Tool "${fc.name}"`);
+    let pending: Promise<ToolResponse>;
+    if (tool.exclusive) {
+      pending = this.exclusiveQueue.then(run, run);
+      this.exclusiveQueue = pending.catch(() => undefined);
+    } else {
+      pending = run();
+    }
+
+    try {
+      return respond(await pending);
+    } catch (err) {
+      return respond({ status: 'error', error: (err as Error)?.message ?? String(err) });
+    }
+  }
+
+  // Handles every function call in the message concurrently; responses keep the order of the calls.
+  dispatch(message: LiveServerMessage, isMouseMode: boolean): Promise<FunctionResponse[]> {
+    const calls = message.toolCall?.functionCalls ?? [];
+    return Promise.all(calls.map(fc => this.call(fc, isMouseMode)));
+  }
+}
@@ -0,0 +1,24 @@
+import { TranscriptionEntry } from '../types';
+
+// Streamed transcription arrives in small chunks; consecutive chunks from the same speaker form one turn.
+export function appendChunk(
+  entries: TranscriptionEntry[],
+  role: TranscriptionEntry['role'],
+  chunk: string,
+  timestamp = Date.now(),
+): TranscriptionEntry[] {
+  if (!chunk) return entries;
+  const last = entries[entries.length - 1];
+  if (last && last.role === role && !last.complete) {
+    return [...entries.slice(0, -1), { ...last, text: last.text + chunk }];
+  }
+  // A new speaker closes whatever turn was open.
+  const closed = last && !last.complete ? [...entries.slice(0, -1), { ...last, complete: true }] : entries;
+  return [...closed, { role, text: chunk.trimStart(), timestamp }];
+}
+
+export function completeTurn(entries: TranscriptionEntry[]): TranscriptionEntry[] {
+  const last = entries[entries.length - 1];
+  if (!last || last.complete) return entries;
+  return [...entries.slice(0, -1), { ...last, text: last.text.trim(), complete: true }];
+}
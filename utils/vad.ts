@@ -0,0 +1,72 @@
+export interface VadOptions {
+  // Speech must exceed the noise floor by this factor.
+  thresholdRatio: number;
+  // Absolute RMS below which nothing counts as speech, however quiet the room.
+  minThreshold: number;
+  // How quickly the noise floor follows the signal while nobody is speaking (0-1 per frame).
+  floorAdaptation: number;
+  // Consecutive loud time needed before speech starts.
+  attackMs: number;
+  // Speech stays "on" this long after the level drops, so pauses between words don't cut off.
+  hangoverMs: number;
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  thresholdRatio: 3,
+  minThreshold: 0.008,
+  floorAdaptation: 0.05,
+  attackMs: 60,
+  hangoverMs: 400,
+};
+
+export function rms(frame: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  return Math.sqrt(sum / (frame.length || 1));
+}
+
+export class VoiceActivityDetector {
+  private noiseFloor: number;
+  private loudMs = 0;
+  private quietMs = 0;
+  private speaking = false;
+
+  constructor(private options: VadOptions = DEFAULT_VAD_OPTIONS) {
+    this.noiseFloor = options.minThreshold / options.thresholdRatio;
+  }
+
+  get isSpeaking() {
+    return this.speaking;
+  }
+
+  get threshold() {
+    return Math.max(this.options.minThreshold, this.noiseFloor * this.options.thresholdRatio);
+  }
+
+  process(frame: Float32Array, frameMs: number): boolean {
+    const level = rms(frame);
+    const loud = level > this.threshold;
+
+    if (loud) {
+      this.loudMs += frameMs;
+      this.quietMs = 0;
+      if (!this.speaking && this.loudMs >= this.options.attackMs) this.speaking = true;
+    } else {
+      this.loudMs = 0;
+      this.quietMs += frameMs;
+      if (this.speaking && this.quietMs >= this.options.hangoverMs) this.speaking = false;
+    }
+
+    // Learn the floor mostly from non-speech. It still creeps up slowly during "speech" so a
+    // persistent new noise source (a fan switching on) is eventually absorbed.
+    const rate = this.speaking ? this.options.floorAdaptation / 20 : this.options.floorAdaptation;
+    this.noiseFloor += (level - this.noiseFloor) * rate;
+    return this.speaking;
+  }
+
+  reset() {
+    this.loudMs = 0;
+    this.quietMs = 0;
+    this.speaking = false;
+  }
+}
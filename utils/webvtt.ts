@@ -0,0 +1,53 @@
+import { TranscriptionEntry } from '../types';
+
+export interface Caption {
+  role: TranscriptionEntry['role'];
+  text: string;
+  // Milliseconds from the start of the recording.
+  start: number;
+  end: number;
+  complete?: boolean;
+}
+
+const SPEAKERS: Record<Caption['role'], string> = { user: 'User', model: 'Gemini' };
+// Short chunks would otherwise flash by faster than they can be read.
+const MIN_CUE_MS = 1000;
+
+// Same turn-grouping as the transcript: consecutive chunks from one speaker extend the open cue.
+export function appendCaption(captions: Caption[], role: Caption['role'], chunk: string, at: number): Caption[] {
+  if (!chunk) return captions;
+  const last = captions[captions.length - 1];
+  if (last && last.role === role && !last.complete) {
+    return [...captions.slice(0, -1), { ...last, text: last.text + chunk, end: at }];
+  }
+  const closed = last && !last.complete ? [...captions.slice(0, -1), { ...last, complete: true }] : captions;
+  return [...closed, { role, text: chunk.trimStart(), start: at, end: at }];
+}
+
+export function closeCaption(captions: Caption[], at: number): Caption[] {
+  const last = captions[captions.length - 1];
+  if (!last || last.complete) return captions;
+  return [...captions.slice(0, -1), { ...last, text: last.text.trim(), end: Math.max(last.end, at), complete: true }];
+}
+
+export function formatTimestamp(ms: number): string {
+  const total = Math.max(0, Math.round(ms));
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor(total / 60000) % 60;
+  const seconds = Math.floor(total / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(total % 1000, 3)}`;
+}
+
+const escapeCueText = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export function toWebVtt(captions: Caption[]): string {
+  const spoken = captions.filter(c => c.text.trim());
+  const cues = spoken.map((c, i) => {
+    // Short cues are stretched only up to the next one so players show one line at a time.
+    const next = spoken[i + 1];
+    const end = Math.max(c.end, Math.min(c.start + MIN_CUE_MS, next ? next.start : Infinity));
+    return `${i + 1}\n${formatTimestamp(c.start)} --> ${formatTimestamp(end)}\n<v ${SPEAKERS[c.role]}>${escapeCueText(c.text.trim())}`;
+  });
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
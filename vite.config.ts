@@ -2,6 +2,8 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { serviceWorker } from './plugins/service-worker';
+import { isLoopbackAddress } from './server/origin';
 
 // Fix for __dirname error in ESM environments
 const __filename = fileURLToPath(import.meta.url);
@@ -13,11 +15,21 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // The API key stays in the token proxy (npm run token-server); the browser only sees ephemeral tokens.
+          '/api/token': {
+            target: `http://127.0.0.1:${env.TOKEN_PORT || 8787}`,
+            rewrite: () => '/token',
+            // The dev server is reachable from the LAN; tokens are only handed to this machine.
+            bypass: req => (isLoopbackAddress(req.socket.remoteAddress) ? undefined : false),
+          },
+        },
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker(path.resolve(__dirname, 'sw.js'))],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.TOKEN_URL': JSON.stringify(env.TOKEN_URL),
+        'process.env.EXECUTOR': JSON.stringify(env.EXECUTOR),
+        'process.env.EXECUTOR_URL': JSON.stringify(env.EXECUTOR_URL)
       },
       resolve: {
         alias: {
@@ -0,0 +1,48 @@
+import { encode } from '../utils/audio-utils';
+import { frameSignature, frameDifference, SIGNATURE_WIDTH, SIGNATURE_HEIGHT } from '../utils/frame-diff';
+
+export interface FrameRequest {
+  bitmap: ImageBitmap;
+  quality: number;
+  threshold: number;
+  force: boolean;
+}
+
+export type FrameResponse =
+  | { sent: true; data: string; width: number; height: number; bytes: number; difference: number }
+  | { sent: false; difference: number };
+
+// DedicatedWorkerGlobalScope is not part of the DOM lib.
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<FrameRequest>) => void) | null;
+  postMessage(message: FrameResponse): void;
+};
+
+const signatureCanvas = new OffscreenCanvas(SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+const signatureCtx = signatureCanvas.getContext('2d', { willReadFrequently: true })!;
+let frameCanvas: OffscreenCanvas | null = null;
+let previous: Uint8Array | null = null;
+
+scope.onmessage = async ({ data: { bitmap, quality, threshold, force } }) => {
+  signatureCtx.drawImage(bitmap, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const signature = frameSignature(signatureCtx.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT).data);
+  const difference = frameDifference(previous, signature);
+
+  if (!force && difference < threshold) {
+    bitmap.close();
+    scope.postMessage({ sent: false, difference });
+    return;
+  }
+
+  const { width, height } = bitmap;
+  if (!frameCanvas || frameCanvas.width !== width || frameCanvas.height !== height) {
+    frameCanvas = new OffscreenCanvas(width, height);
+  }
+  frameCanvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const blob = await frameCanvas.convertToBlob({ type: 'image/jpeg', quality });
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  previous = signature;
+  scope.postMessage({ sent: true, data: encode(bytes), width, height, bytes: bytes.byteLength, difference });
+};
@@ -0,0 +1,49 @@
+import { Resampler } from '../utils/resampler';
+
+// AudioWorkletGlobalScope is not part of the DOM lib.
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processor: new (options: any) => unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+
+interface CaptureOptions {
+  targetRate: number;
+  frameSamples: number;
+}
+
+// Resamples the mic from the context's native rate and posts fixed-size Float32 frames to the main thread.
+class CaptureProcessor extends AudioWorkletProcessor {
+  private resampler: Resampler;
+  private frame: Float32Array;
+  private filled = 0;
+
+  constructor(options: { processorOptions: CaptureOptions }) {
+    super();
+    const { targetRate, frameSamples } = options.processorOptions;
+    this.resampler = new Resampler(sampleRate, targetRate);
+    this.frame = new Float32Array(frameSamples);
+  }
+
+  process(inputs: Float32Array[][]) {
+    const channel = inputs[0]?.[0];
+    if (!channel) return true;
+
+    const samples = this.resampler.process(channel);
+    let offset = 0;
+    while (offset < samples.length) {
+      const n = Math.min(this.frame.length - this.filled, samples.length - offset);
+      this.frame.set(samples.subarray(offset, offset + n), this.filled);
+      this.filled += n;
+      offset += n;
+      if (this.filled === this.frame.length) {
+        this.port.postMessage(this.frame, [this.frame.buffer]);
+        this.frame = new Float32Array(this.frame.length);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('capture-processor', CaptureProcessor);
@@ -0,0 +1,71 @@
+import { PlaybackBuffer } from '../utils/playback-buffer';
+
+// AudioWorkletGlobalScope is not part of the DOM lib.
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processor: new (options: any) => unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+
+export interface PlaybackProcessorOptions {
+  prebufferMs: number;
+  fadeMs: number;
+  declickMs: number;
+  duckMs: number;
+  reportMs: number;
+}
+
+export type PlaybackMessage =
+  | { type: 'push'; samples: Float32Array }
+  | { type: 'drain' }
+  | { type: 'interrupt' }
+  | { type: 'duck'; gain: number };
+
+export interface PlaybackReport {
+  played: number;
+  buffered: number;
+}
+
+const toSamples = (ms: number) => Math.max(1, Math.round((ms / 1000) * sampleRate));
+
+// Plays queued model audio from a ring buffer and reports how much has actually been heard.
+class PlaybackProcessor extends AudioWorkletProcessor {
+  private buffer: PlaybackBuffer;
+  private reportEvery: number;
+  private sinceReport = 0;
+
+  constructor(options: { processorOptions: PlaybackProcessorOptions }) {
+    super();
+    const { prebufferMs, fadeMs, declickMs, duckMs, reportMs } = options.processorOptions;
+    this.buffer = new PlaybackBuffer({
+      prebufferSamples: toSamples(prebufferMs),
+      fadeSamples: toSamples(fadeMs),
+      declickSamples: toSamples(declickMs),
+      duckSamples: toSamples(duckMs),
+      initialCapacity: toSamples(10000),
+    });
+    this.reportEvery = toSamples(reportMs);
+    this.port.onmessage = (e: MessageEvent<PlaybackMessage>) => {
+      const message = e.data;
+      if (message.type === 'push') this.buffer.push((message as { samples: Float32Array }).samples);
+      else if (message.type === 'drain') this.buffer.drain();
+      else if (message.type === 'interrupt') this.buffer.interrupt();
+      else if (message.type === 'duck') this.buffer.duck((message as { gain: number }).gain);
+    };
+  }
+
+  process(_inputs: Float32Array[][], outputs: Float32Array[][]) {
+    const out = outputs[0]?.[0];
+    if (!out) return true;
+    this.buffer.render(out);
+    this.sinceReport += out.length;
+    if (this.sinceReport >= this.reportEvery) {
+      this.sinceReport = 0;
+      const report: PlaybackReport = { played: this.buffer.played, buffered: this.buffer.buffered };
+      this.port.postMessage(report);
+    }
+    return true;
+  }
+}
+
+registerProcessor('playback-processor', PlaybackProcessor);